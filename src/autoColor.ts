@@ -0,0 +1,43 @@
+/**
+ * Deterministic per-project colors for `projectLabel.color: "auto"`.
+ *
+ * The palette is mid-luminance on purpose: every entry keeps at least a
+ * 3:1 contrast ratio against both a white and a #1e1e1e background, so the
+ * label stays readable in light and dark themes alike.
+ */
+export const AUTO_COLOR_PALETTE = [
+    '#e05d5d', // red
+    '#c8741f', // orange
+    '#b8860b', // dark gold
+    '#5a9e3a', // green
+    '#2e9e8f', // teal
+    '#2f8fbf', // cyan
+    '#4a7fd6', // blue
+    '#7a6ee0', // indigo
+    '#a45dd1', // purple
+    '#c2549a', // magenta
+    '#8c7a5b', // bronze
+    '#5f8a8b', // slate
+] as const;
+
+export type AutoColorSource = 'projectName' | 'remote' | 'profile';
+
+/** Pick a stable palette color for `key` (same key → same color, always). */
+export function autoColorFor(key: string): string {
+    return AUTO_COLOR_PALETTE[fnv1a(key) % AUTO_COLOR_PALETTE.length];
+}
+
+/** Whether a color setting asks for the derived color. */
+export function isAutoColor(color: string | undefined): boolean {
+    return color?.trim().toLowerCase() === 'auto';
+}
+
+/** 32-bit FNV-1a hash — small, fast and well distributed for short strings. */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import { restoreSignals, silenceSignals } from './soundSnapshot';
+import { getAllSignalKeys, getSignalKeysInGroup } from './signalRegistry';
+
+/**
+ * workspaceState key: signals this window auto-silenced, so a reload in the
+ * middle of a debug session still restores them. Per workspace, so another
+ * window's triggers never restore ours.
+ */
+const OWNED_KEYS_KEY = 'projectLabel.autoSilencedKeys';
+/** workspaceState key: manual triggers (Zen mode) that survive a reload. */
+const MANUAL_TRIGGERS_KEY = 'projectLabel.autoSilenceTriggers';
+/** Context key: the `zenMode` trigger is configured. */
+const ZEN_MODE_CONTEXT_KEY = 'projectLabel.autoSilenceZenMode';
+
+export type AutoSilenceTrigger = 'debug' | 'task' | 'zenMode' | 'presentation';
+
+/** `projectLabel.autoSilence`: trigger → signal group ids, or "all". */
+export type AutoSilenceConfig = Partial<Record<AutoSilenceTrigger, string[]>>;
+
+/** Triggers VS Code has no API for, switched by our wrapper commands. */
+export type ManualTrigger = 'zenMode' | 'presentation';
+
+export const TRIGGER_LABELS: Record<AutoSilenceTrigger, string> = {
+    debug: 'Debugging',
+    task: 'Task running',
+    zenMode: 'Zen mode',
+    presentation: 'Presenting',
+};
+
+/**
+ * Mutes signal groups while a context is active and restores them after.
+ *
+ * - `debug`: any debug session is running.
+ * - `task`: a task has been running for `projectLabel.autoSilenceTaskDelay`
+ *   seconds, so short builds don't flap the sounds. Background tasks
+ *   (`isBackground`, e.g. `tsc --watch`) are ignored.
+ * - `zenMode` / `presentation`: VS Code exposes neither state to
+ *   extensions, so they are tracked by our wrapper commands. The Zen mode
+ *   commands are bound with `inZenMode` in their `when` clauses, so each
+ *   records the state it knows it is in rather than flipping ours.
+ *
+ * Signals the user silences or restores by hand while a trigger is active
+ * are released (see `release()`), so ending the trigger leaves them alone.
+ *
+ * Only signals that were not already off are silenced, and only those are
+ * restored, through the same snapshot as the silence commands.
+ */
+export class AutoSilence implements vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+    private _debugSessions = new Set<string>();
+    private _runningTasks = new Set<vscode.TaskExecution>();
+    private _longTasks = new Set<vscode.TaskExecution>();
+    private _taskTimers = new Map<vscode.TaskExecution, ReturnType<typeof setTimeout>>();
+    private _manual: Set<ManualTrigger>;
+    private _pending: Promise<void> = Promise.resolve();
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        private readonly _globalState: vscode.Memento,
+        private readonly _workspaceState: vscode.Memento
+    ) {
+        // Screencast mode is off after a reload; Zen mode comes back
+        // only when VS Code is set to restore it
+        const restoresZen = vscode.workspace.getConfiguration('zenMode').get<boolean>('restore', true);
+        this._manual = new Set(
+            _workspaceState.get<ManualTrigger[]>(MANUAL_TRIGGERS_KEY, [])
+                .filter(t => t === 'zenMode' && restoresZen)
+        );
+
+        if (vscode.debug.activeDebugSession) {
+            this._debugSessions.add(vscode.debug.activeDebugSession.id);
+        }
+        vscode.tasks.taskExecutions.forEach(e => this._taskStarted(e));
+
+        this._disposables.push(
+            vscode.debug.onDidStartDebugSession(s => {
+                this._debugSessions.add(s.id);
+                this.refresh();
+            }),
+            vscode.debug.onDidTerminateDebugSession(s => {
+                this._debugSessions.delete(s.id);
+                this.refresh();
+            }),
+            vscode.tasks.onDidStartTask(e => this._taskStarted(e.execution)),
+            vscode.tasks.onDidEndTask(e => this._taskEnded(e.execution))
+        );
+        this.refresh();
+    }
+
+    /** Triggers that are active and configured to silence something. */
+    get activeTriggers(): AutoSilenceTrigger[] {
+        const config = getAutoSilenceConfig();
+        return this._currentTriggers().filter(t => (config[t]?.length ?? 0) > 0);
+    }
+
+    isManualTriggerOn(trigger: ManualTrigger): boolean {
+        return this._manual.has(trigger);
+    }
+
+    /** Record that Zen mode / presentation mode was switched on or off. */
+    async setManualTrigger(trigger: ManualTrigger, on: boolean): Promise<void> {
+        if (on) {
+            this._manual.add(trigger);
+        } else {
+            this._manual.delete(trigger);
+        }
+        await this._workspaceState.update(MANUAL_TRIGGERS_KEY, [...this._manual]);
+        await this.refresh();
+    }
+
+    /** Re-apply after a trigger or `projectLabel.autoSilence` changed. */
+    refresh(): Promise<void> {
+        this._pending = this._pending
+            .then(() => this._apply())
+            .then(undefined, () => { /* e.g. settings not writable — retry on next change */ });
+        return this._pending;
+    }
+
+    /**
+     * Stop owning `keys` without restoring them — the user silenced or
+     * restored them by hand while a trigger was active, and the trigger
+     * ending must not undo that.
+     */
+    release(keys: readonly string[]): Promise<void> {
+        this._pending = this._pending.then(async () => {
+            const owned = this._workspaceState.get<string[]>(OWNED_KEYS_KEY, []);
+            const released = new Set(keys);
+            if (owned.some(k => released.has(k))) {
+                await this._workspaceState.update(OWNED_KEYS_KEY, owned.filter(k => !released.has(k)));
+            }
+        }).then(undefined, () => { /* workspaceState unavailable — nothing to release */ });
+        return this._pending;
+    }
+
+    /**
+     * Restore everything we silenced, on deactivate, so sounds aren't left
+     * off globally until this workspace is opened again.
+     */
+    restoreAll(): Promise<void> {
+        this._pending = this._pending.then(async () => {
+            const owned = this._workspaceState.get<string[]>(OWNED_KEYS_KEY, []);
+            if (owned.length > 0) {
+                await this._workspaceState.update(OWNED_KEYS_KEY, []);
+                await restoreSignals(this._globalState, owned);
+            }
+        }).then(undefined, () => { /* best effort while shutting down */ });
+        return this._pending;
+    }
+
+    private _currentTriggers(): AutoSilenceTrigger[] {
+        const triggers: AutoSilenceTrigger[] = [];
+        if (this._debugSessions.size > 0) {
+            triggers.push('debug');
+        }
+        if (this._longTasks.size > 0) {
+            triggers.push('task');
+        }
+        return [...triggers, ...this._manual];
+    }
+
+    private async _apply(): Promise<void> {
+        const config = getAutoSilenceConfig();
+        // The Zen mode keybindings only take over the built-in keys while
+        // the trigger is configured
+        await vscode.commands.executeCommand(
+            'setContext', ZEN_MODE_CONTEXT_KEY, (config.zenMode?.length ?? 0) > 0);
+        const wanted = new Set(this._currentTriggers().flatMap(t => resolveGroups(config[t] ?? [])));
+        const owned = this._workspaceState.get<string[]>(OWNED_KEYS_KEY, []);
+
+        const signals = vscode.workspace.getConfiguration('accessibility.signals');
+        const toSilence = [...wanted].filter(k =>
+            !owned.includes(k) && signals.get<{ sound?: string }>(k)?.sound !== 'off');
+        const toRestore = owned.filter(k => !wanted.has(k));
+
+        if (toSilence.length > 0 || toRestore.length > 0) {
+            // Persist before writing so a reload mid-way still restores
+            await this._workspaceState.update(
+                OWNED_KEYS_KEY,
+                [...owned.filter(k => wanted.has(k)), ...toSilence]
+            );
+            await restoreSignals(this._globalState, toRestore);
+            await silenceSignals(this._globalState, toSilence);
+        }
+        this._onDidChange.fire();
+    }
+
+    private _taskStarted(execution: vscode.TaskExecution): void {
+        // Watchers and dev servers never end; they would keep sounds muted
+        // for the whole session
+        if (this._runningTasks.has(execution) || execution.task.isBackground) {
+            return;
+        }
+        this._runningTasks.add(execution);
+        const delay = vscode.workspace.getConfiguration('projectLabel').get<number>('autoSilenceTaskDelay', 10);
+        this._taskTimers.set(execution, setTimeout(() => {
+            this._taskTimers.delete(execution);
+            this._longTasks.add(execution);
+            this.refresh();
+        }, Math.max(0, delay) * 1000));
+    }
+
+    private _taskEnded(execution: vscode.TaskExecution): void {
+        this._runningTasks.delete(execution);
+        const timer = this._taskTimers.get(execution);
+        if (timer) {
+            clearTimeout(timer);
+            this._taskTimers.delete(execution);
+        }
+        if (this._longTasks.delete(execution)) {
+            this.refresh();
+        }
+    }
+
+    dispose(): void {
+        this._taskTimers.forEach(timer => clearTimeout(timer));
+        this._disposables.forEach(d => d.dispose());
+        this._onDidChange.dispose();
+    }
+}
+
+function getAutoSilenceConfig(): AutoSilenceConfig {
+    const config = vscode.workspace.getConfiguration('projectLabel').get<AutoSilenceConfig>('autoSilence', {});
+    return config && typeof config === 'object' ? config : {};
+}
+
+/** Group ids (or "all") → registered signal keys. */
+function resolveGroups(groups: readonly string[]): string[] {
+    if (!Array.isArray(groups)) {
+        return [];
+    }
+    return groups.includes('all') ? getAllSignalKeys() : groups.flatMap(getSignalKeysInGroup);
+}
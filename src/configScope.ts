@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { getActiveWorkspaceFolder } from './workspaceFolder';
+
+/** Where a setting is written: user settings, the workspace, or one folder. */
+export type SettingScope = 'user' | 'workspace' | 'folder';
+
+export const SCOPE_LABELS: Record<SettingScope | 'default', string> = {
+    user: 'User',
+    workspace: 'Workspace',
+    folder: 'Folder',
+    default: 'Default',
+};
+
+/**
+ * `projectLabel.*` settings declared with `"scope": "resource"` in
+ * package.json — the only ones VS Code lets us write per folder.
+ */
+const FOLDER_SCOPED_KEYS = new Set([
+    'showProjectName', 'showProfile', 'showGitBranch', 'separator',
+    'customLabel', 'labelTemplate', 'color', 'autoColorSource', 'icon', 'rules',
+]);
+
+export function isSettingScope(value: unknown): value is SettingScope {
+    return value === 'user' || value === 'workspace' || value === 'folder';
+}
+
+/**
+ * `projectLabel` settings as seen from the labelled folder, so values
+ * written at Folder scope take effect.
+ */
+export function getScopedConfiguration(section = 'projectLabel'): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration(section, getActiveWorkspaceFolder()?.uri);
+}
+
+/**
+ * Scopes that can be written in this window. Workspace needs an open
+ * folder; Folder only differs from Workspace in a multi-root workspace.
+ */
+export function getAvailableScopes(): SettingScope[] {
+    const scopes: SettingScope[] = ['user'];
+    if (vscode.workspace.workspaceFolders?.length) {
+        scopes.push('workspace');
+        if (vscode.workspace.workspaceFile && getActiveWorkspaceFolder()) {
+            scopes.push('folder');
+        }
+    }
+    return scopes;
+}
+
+/**
+ * The scope actually used for writing `key`: Folder falls back to
+ * Workspace for window-scoped settings, and anything unavailable falls
+ * back to User.
+ */
+export function resolveWriteScope(key: string, scope: SettingScope): SettingScope {
+    const available = getAvailableScopes();
+    if (scope === 'folder' && (!FOLDER_SCOPED_KEYS.has(key) || !available.includes('folder'))) {
+        scope = 'workspace';
+    }
+    return available.includes(scope) ? scope : 'user';
+}
+
+export function toConfigurationTarget(scope: SettingScope): vscode.ConfigurationTarget {
+    switch (scope) {
+        case 'folder': return vscode.ConfigurationTarget.WorkspaceFolder;
+        case 'workspace': return vscode.ConfigurationTarget.Workspace;
+        default: return vscode.ConfigurationTarget.Global;
+    }
+}
+
+/** Scopes that set a value for `key`, most specific first. */
+export function getDefinedScopes(key: string, section = 'projectLabel'): SettingScope[] {
+    const inspected = getScopedConfiguration(section).inspect(key);
+    const scopes: SettingScope[] = [];
+    if (inspected?.workspaceFolderValue !== undefined && vscode.workspace.workspaceFile) {
+        scopes.push('folder');
+    }
+    if (inspected?.workspaceValue !== undefined) {
+        scopes.push('workspace');
+    }
+    if (inspected?.globalValue !== undefined) {
+        scopes.push('user');
+    }
+    return scopes;
+}
+
+/** The scope whose value is in effect for `key`, or "default". */
+export function getDefiningScope(key: string, section = 'projectLabel'): SettingScope | 'default' {
+    return getDefinedScopes(key, section)[0] ?? 'default';
+}
+
+/**
+ * Write `value` for `key` at `scope` (see `resolveWriteScope`). Writing
+ * undefined removes the value there, so a lower scope is inherited again.
+ */
+export async function updateScopedSetting(key: string, value: unknown, scope: SettingScope): Promise<void> {
+    const target = toConfigurationTarget(resolveWriteScope(key, scope));
+    await getScopedConfiguration().update(key, value, target);
+}
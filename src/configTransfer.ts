@@ -0,0 +1,351 @@
+import * as vscode from 'vscode';
+import { getScopedConfiguration, SettingScope, updateScopedSetting } from './configScope';
+import { getSignalRegistry } from './signalRegistry';
+import { restoreSignals, SignalField, silenceSignals } from './soundSnapshot';
+import {
+    getSavedSoundPresets, isSoundPreset, saveSoundPreset, SoundPreset,
+} from './soundPresets';
+
+const EXTENSION_ID = 'narayanaya.project-label';
+const FILE_FORMAT = 'project-label-config';
+
+/**
+ * Current version of the exported file. Bump it and add a step to
+ * `MIGRATIONS` whenever the shape of the file changes.
+ */
+const CONFIG_FILE_VERSION = 1;
+
+/** Values accepted for a signal's `sound` / `announcement` field. */
+const SIGNAL_VALUES = new Set(['on', 'off', 'auto', 'userGesture', 'always', 'never']);
+
+/** Old `audioCues.*` names whose `accessibility.signals` key differs. */
+const RENAMED_SIGNALS: Record<string, string> = {
+    chatResponsePending: 'progress',
+};
+
+type SignalState = Partial<Record<SignalField, string>>;
+
+/** An exported Project Label configuration. */
+export interface ConfigFile {
+    format: typeof FILE_FORMAT;
+    version: number;
+    exportedAt: string;
+    /** Extension version that wrote the file. */
+    extensionVersion?: string;
+    /** `projectLabel.*` setting (without prefix) → effective value. */
+    settings: Record<string, unknown>;
+    /** `accessibility.signals` key → effective sound/announcement values. */
+    signals: Record<string, SignalState>;
+    /** Saved sound presets. Built-ins are not exported. */
+    presets: SoundPreset[];
+}
+
+export interface ParsedConfigFile {
+    config: ConfigFile;
+    /** Entries that were skipped, one human-readable line each. */
+    problems: string[];
+    /** Version the file was migrated from, when it was older. */
+    migratedFrom?: number;
+}
+
+/** One difference between an imported file and the current configuration. */
+export type ConfigChange =
+    | { kind: 'setting'; key: string; current: unknown; incoming: unknown }
+    | { kind: 'signal'; key: string; field: SignalField; current: string | undefined; incoming: string }
+    | { kind: 'preset'; key: string; current: SoundPreset | undefined; incoming: SoundPreset };
+
+/**
+ * File version → step that upgrades a file of that version to the next.
+ * Steps run in order until the file reaches `CONFIG_FILE_VERSION`.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+    // Version 0: a settings.json excerpt with `projectLabel.*` and
+    // `accessibility.signals.*` (or older `audioCues.*`) keys, as teammates
+    // shared them before this command existed.
+    0: data => {
+        const settings: Record<string, unknown> = {};
+        const signals: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(data)) {
+            if (key.startsWith('projectLabel.')) {
+                settings[key] = value;
+            } else if (key.startsWith('accessibility.signals.') || key.startsWith('audioCues.')) {
+                signals[key] = value;
+            }
+        }
+        return { format: FILE_FORMAT, version: 1, exportedAt: '', settings, signals, presets: [] };
+    },
+};
+
+/** The current configuration as pretty-printed JSON, for the export command. */
+export function serializeConfig(state: vscode.Memento): string {
+    const config = getScopedConfiguration();
+    const settings: Record<string, unknown> = {};
+    for (const key of Object.keys(getSettingSchemas())) {
+        settings[key] = config.get(key);
+    }
+
+    const signalConfig = vscode.workspace.getConfiguration('accessibility.signals');
+    const signals: Record<string, SignalState> = {};
+    for (const signal of getSignalRegistry()) {
+        const value = signalConfig.get<SignalState>(signal.key);
+        signals[signal.key] = signal.hasAnnouncement
+            ? { sound: value?.sound, announcement: value?.announcement }
+            : { sound: value?.sound };
+    }
+
+    const file: ConfigFile = {
+        format: FILE_FORMAT,
+        version: CONFIG_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        extensionVersion: vscode.extensions.getExtension(EXTENSION_ID)?.packageJSON.version,
+        settings,
+        signals,
+        presets: getSavedSoundPresets(state),
+    };
+    return JSON.stringify(file, null, 2) + '\n';
+}
+
+/**
+ * Parse, migrate and validate an exported file. Unknown settings and
+ * signals, and values of the wrong type, are dropped and listed in
+ * `problems`. Throws when the text is not a configuration file at all.
+ */
+export function parseConfigFile(text: string): ParsedConfigFile {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : err}`);
+    }
+    if (!isPlainObject(data)) {
+        throw new Error('Expected a JSON object.');
+    }
+
+    let version = data.format === FILE_FORMAT ? data.version : 0;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+        throw new Error(`Unsupported file version: ${JSON.stringify(data.version)}.`);
+    }
+    if (version > CONFIG_FILE_VERSION) {
+        throw new Error(`The file was written by a newer Project Label (format version ${version}). Update the extension to import it.`);
+    }
+    const migratedFrom = version < CONFIG_FILE_VERSION ? version : undefined;
+    while (version < CONFIG_FILE_VERSION) {
+        data = MIGRATIONS[version](data as Record<string, unknown>);
+        version++;
+    }
+    const file = data as Record<string, unknown>;
+
+    const problems: string[] = [];
+    const config: ConfigFile = {
+        format: FILE_FORMAT,
+        version,
+        exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+        extensionVersion: typeof file.extensionVersion === 'string' ? file.extensionVersion : undefined,
+        settings: validateSettings(file.settings, problems),
+        signals: validateSignals(file.signals, problems),
+        presets: validatePresets(file.presets, problems),
+    };
+    return { config, problems, migratedFrom };
+}
+
+/** What importing `config` would change, in settings → signals → presets order. */
+export function diffConfig(state: vscode.Memento, config: ConfigFile): ConfigChange[] {
+    const changes: ConfigChange[] = [];
+
+    const settings = getScopedConfiguration();
+    for (const [key, incoming] of Object.entries(config.settings)) {
+        const current = settings.get(key);
+        if (!sameValue(current, incoming)) {
+            changes.push({ kind: 'setting', key, current, incoming });
+        }
+    }
+
+    const signals = vscode.workspace.getConfiguration('accessibility.signals');
+    for (const [key, signal] of Object.entries(config.signals)) {
+        const current = signals.get<SignalState>(key);
+        for (const field of ['sound', 'announcement'] as const) {
+            const incoming = signal[field];
+            if (incoming !== undefined && current?.[field] !== incoming) {
+                changes.push({ kind: 'signal', key, field, current: current?.[field], incoming });
+            }
+        }
+    }
+
+    const saved = getSavedSoundPresets(state);
+    for (const incoming of config.presets) {
+        const current = saved.find(p => p.name.toLowerCase() === incoming.name.toLowerCase());
+        if (!current || !sameValue(current, incoming)) {
+            changes.push({ kind: 'preset', key: incoming.name, current, incoming });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Apply `changes`. Settings are written at `scope` (see
+ * `resolveWriteScope`); signals at User or Workspace level, as there are no
+ * per-folder signals, through the snapshot so the silence commands can
+ * still restore what the import turned off. `memento` must be
+ * workspaceState unless `scope` is User, as with `silenceSignals()`.
+ * Presets are always saved to globalState.
+ */
+export async function applyConfigChanges(
+    globalState: vscode.Memento,
+    memento: vscode.Memento,
+    changes: readonly ConfigChange[],
+    scope: SettingScope
+): Promise<void> {
+    for (const change of changes) {
+        if (change.kind === 'setting') {
+            await updateScopedSetting(change.key, change.incoming, scope);
+        }
+    }
+
+    const signalTarget = scope === 'user'
+        ? vscode.ConfigurationTarget.Global
+        : vscode.ConfigurationTarget.Workspace;
+    const signalChanges = changes.filter(c => c.kind === 'signal');
+    for (const field of ['sound', 'announcement'] as const) {
+        const ofField = signalChanges.filter(c => c.field === field);
+        await restoreSignals(memento, ofField.filter(c => c.current === 'off').map(c => c.key), field, signalTarget);
+        await silenceSignals(memento, ofField.filter(c => c.incoming === 'off').map(c => c.key), field, signalTarget);
+        await writeSignalValues(ofField.filter(c => c.incoming !== 'off'), signalTarget);
+    }
+
+    for (const change of changes) {
+        if (change.kind === 'preset') {
+            await saveSoundPreset(globalState, change.incoming);
+        }
+    }
+}
+
+/** Set non-"off" values that restoring didn't already produce. */
+async function writeSignalValues(
+    changes: ReadonlyArray<Extract<ConfigChange, { kind: 'signal' }>>,
+    target: vscode.ConfigurationTarget
+): Promise<void> {
+    const signals = vscode.workspace.getConfiguration('accessibility.signals');
+    await Promise.all(changes.map(async ({ key, field, incoming }) => {
+        if (signals.get<SignalState>(key)?.[field] === incoming) {
+            return;
+        }
+        const inspected = signals.inspect<SignalState>(key);
+        const base = target === vscode.ConfigurationTarget.Workspace
+            ? inspected?.workspaceValue ?? inspected?.globalValue ?? {}
+            : inspected?.globalValue ?? {};
+        await signals.update(key, { ...base, [field]: incoming }, target)
+            .then(undefined, () => { /* no workspace — skip */ });
+    }));
+}
+
+/** `projectLabel.*` setting (without prefix) → its package.json schema. */
+function getSettingSchemas(): Record<string, SettingSchema> {
+    const properties: Record<string, SettingSchema> = vscode.extensions.getExtension(EXTENSION_ID)
+        ?.packageJSON.contributes?.configuration?.properties ?? {};
+    const schemas: Record<string, SettingSchema> = {};
+    for (const [key, schema] of Object.entries(properties)) {
+        if (key.startsWith('projectLabel.')) {
+            schemas[key.substring('projectLabel.'.length)] = schema;
+        }
+    }
+    return schemas;
+}
+
+interface SettingSchema {
+    type?: string | string[];
+    enum?: unknown[];
+}
+
+function validateSettings(value: unknown, problems: string[]): Record<string, unknown> {
+    const schemas = getSettingSchemas();
+    const settings: Record<string, unknown> = {};
+    for (const [rawKey, setting] of Object.entries(isPlainObject(value) ? value : {})) {
+        const key = rawKey.replace(/^projectLabel\./, '');
+        const schema = schemas[key];
+        if (!schema) {
+            problems.push(`Unknown setting "projectLabel.${key}" skipped.`);
+        } else if (!matchesSchema(setting, schema)) {
+            problems.push(`Setting "projectLabel.${key}" has an invalid value ${JSON.stringify(setting)} and was skipped.`);
+        } else {
+            settings[key] = setting;
+        }
+    }
+    return settings;
+}
+
+function validateSignals(value: unknown, problems: string[]): Record<string, SignalState> {
+    const registry = new Map(getSignalRegistry().map(s => [s.key, s]));
+    const signals: Record<string, SignalState> = {};
+    for (const [rawKey, raw] of Object.entries(isPlainObject(value) ? value : {})) {
+        const bare = rawKey.replace(/^(accessibility\.signals|audioCues)\./, '');
+        const key = RENAMED_SIGNALS[bare] ?? bare;
+        const signal = registry.get(key);
+        if (!signal) {
+            problems.push(`Signal "${rawKey}" does not exist in this VS Code and was skipped.`);
+            continue;
+        }
+        // `audioCues.*` values were a plain "on" / "off" / "auto" sound setting
+        const state = typeof raw === 'string' ? { sound: raw } : raw;
+        if (!isPlainObject(state)) {
+            problems.push(`Signal "${rawKey}" has an invalid value and was skipped.`);
+            continue;
+        }
+        const valid: SignalState = {};
+        for (const field of ['sound', 'announcement'] as const) {
+            const fieldValue = state[field];
+            if (fieldValue === undefined || (field === 'announcement' && !signal.hasAnnouncement)) {
+                continue;
+            }
+            if (typeof fieldValue === 'string' && SIGNAL_VALUES.has(fieldValue)) {
+                valid[field] = fieldValue;
+            } else {
+                problems.push(`Signal "${key}" has an invalid ${field} value ${JSON.stringify(fieldValue)} and was skipped.`);
+            }
+        }
+        if (Object.keys(valid).length > 0) {
+            signals[key] = { ...signals[key], ...valid };
+        }
+    }
+    return signals;
+}
+
+function validatePresets(value: unknown, problems: string[]): SoundPreset[] {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        problems.push('"presets" is not an array and was skipped.');
+        return [];
+    }
+    return value.filter((preset, i) => {
+        if (isSoundPreset(preset) && preset.name.trim()) {
+            return true;
+        }
+        problems.push(`Preset #${i + 1} is invalid and was skipped.`);
+        return false;
+    });
+}
+
+function matchesSchema(value: unknown, schema: SettingSchema): boolean {
+    if (schema.enum && !schema.enum.some(e => sameValue(e, value))) {
+        return false;
+    }
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    return types.length === 0 || types.some(type => {
+        switch (type) {
+            case 'array': return Array.isArray(value);
+            case 'object': return isPlainObject(value);
+            case 'integer': return Number.isInteger(value);
+            case 'null': return value === null;
+            default: return typeof value === type;
+        }
+    });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -1,47 +1,174 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
-import * as os from 'os';
-import { SettingsPanel } from './settingsPanel';
-import { ProjectLabelTreeProvider } from './treeViewProvider';
-
-let statusBarItem: vscode.StatusBarItem;
+import { PanelLiveInfo, SettingsPanel } from './settingsPanel';
+import { ProjectLabelTreeProvider, SettingItem } from './treeViewProvider';
+import {
+    getActiveFolderKey, getActiveWorkspaceFolder, getProjectName, getProjectPath,
+} from './workspaceFolder';
+import { resolveLabelTemplate, TemplateValues } from './labelTemplate';
+import { formatGitStatus, GitInfo, GitWatcher, normalizeRemoteUrl, remoteWebUrl } from './git';
+import { describeRule, resolveActiveRule, ruleBackgroundColor } from './rules';
+import { ProjectConfigFile } from './projectConfig';
+import {
+    clearWorkbenchColors, isWorkbenchColor, syncWorkbenchColors, WorkbenchColorArea,
+} from './workbenchColors';
+import { autoColorFor, AutoColorSource, isAutoColor } from './autoColor';
+import { ProfileDetection, ProfileWatcher } from './profile';
+import {
+    cleanUpWindowTitles, clearWindowTitle, expandWindowTitle, syncWindowTitle,
+    WindowTitleTarget, WindowTitleValues,
+} from './windowTitle';
+import { restoreSignals, SignalField, silenceSignals } from './soundSnapshot';
+import { getAllSignalKeys, getAnnouncementSignalKeys, getSignalKeysInGroup } from './signalRegistry';
+import {
+    applySoundPreset, captureSoundPreset, deleteSoundPreset, findActivePreset, getSoundPresets,
+    isBuiltInPresetName, saveSoundPreset, serializeSoundPresets, SOUND_PRESETS_KEY, SoundPreset,
+} from './soundPresets';
+import { formatRemaining, QuietHours } from './quietHours';
+import { AutoSilence, ManualTrigger, TRIGGER_LABELS } from './autoSilence';
+import {
+    getAvailableScopes, getDefiningScope, getScopedConfiguration, isSettingScope, SCOPE_LABELS,
+    SettingScope, updateScopedSetting,
+} from './configScope';
+import {
+    describeRecentProject, getRecentProjectIcon, getRecentProjects, getWindowProjectUri, openRecentProject,
+    recordRecentProject, RecentProject, removeRecentProject,
+} from './recentProjects';
+import { formatLastSeen, WindowRegistry } from './windowRegistry';
+import { getSegmentConfigs, ResolvedSegment, SegmentConfig, StatusSegments } from './statusSegments';
+import {
+    applyConfigChanges, ConfigChange, diffConfig, parseConfigFile, ParsedConfigFile, serializeConfig,
+} from './configTransfer';
+
+let statusSegments: StatusSegments;
 let soundStatusBarItem: vscode.StatusBarItem;
 let cachedProfileName: string | undefined;
-let originalWindowTitle: string | undefined;
+let profileWatcher: ProfileWatcher;
+let outputChannel: vscode.OutputChannel;
 let treeProvider: ProjectLabelTreeProvider;
+let gitWatcher: GitWatcher | undefined;
+let projectConfig: ProjectConfigFile;
+let workspaceState: vscode.Memento | undefined;
+let globalState: vscode.Memento | undefined;
+let quietHours: QuietHours | undefined;
+let autoSilence: AutoSilence | undefined;
+let windowRegistry: WindowRegistry | undefined;
+let lastTitleTarget: WindowTitleTarget | undefined;
+let lastFolderKey: string | undefined;
+/** Setting (or segment) → the invalid template last warned about. */
+const lastTemplateWarnings = new Map<string, string>();
+/** Duplicate `projectLabel.segments` ids last warned about. */
+let lastDuplicateSegmentWarning = '';
+/** Whether this window has put its project at the top of the history yet. */
+let recordedWindowProject = false;
 
 export function activate(context: vscode.ExtensionContext): void {
-    // Detect profile once at activation (profile doesn't change mid-session)
-    cachedProfileName = detectProfileName(context);
-
-    // Remember original window title for clean restore on deactivate
-    originalWindowTitle = vscode.workspace.getConfiguration('window').get<string>('title');
-
-    // Create status bar item based on current config
-    statusBarItem = createStatusBarItem();
-    context.subscriptions.push(statusBarItem);
+    workspaceState = context.workspaceState;
+    globalState = context.globalState;
+    // Saved sound presets roam with Settings Sync
+    context.globalState.setKeysForSync([SOUND_PRESETS_KEY]);
+
+    outputChannel = vscode.window.createOutputChannel('Project Label');
+    context.subscriptions.push(outputChannel);
+
+    // Detect the profile and keep watching its metadata, so renaming the
+    // profile in the Profiles editor updates the label live
+    profileWatcher = new ProfileWatcher(context.globalStorageUri.fsPath, vscode.env.appName);
+    context.subscriptions.push(profileWatcher);
+    cachedProfileName = profileWatcher.current.name;
+    logProfileDetection(profileWatcher.current);
+
+    // Label status bar items, one per projectLabel.segments entry;
+    // updateLabel() creates, updates and disposes them
+    statusSegments = new StatusSegments();
+    context.subscriptions.push(statusSegments);
 
     // Create sound status bar item (right side, low priority so it's near the edge)
     soundStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-    soundStatusBarItem.command = 'projectLabel.toggleSilenceAllSounds';
+    soundStatusBarItem.command = 'projectLabel.switchSoundPreset';
     context.subscriptions.push(soundStatusBarItem);
+
+    // Timed silence and the quiet-hours schedule; a period that expired
+    // while the window was closed is restored right away
+    quietHours = new QuietHours(context.globalState);
+    context.subscriptions.push(
+        quietHours,
+        quietHours.onDidChange(() => updateSoundStatusBar()),
+        quietHours.onDidExpire(() => {
+            vscode.window.showInformationMessage('🔊 Quiet time is over — sounds restored.');
+        })
+    );
+
+    // Mute signal groups while debugging, running tasks, in Zen mode or presenting
+    autoSilence = new AutoSilence(context.globalState, context.workspaceState);
+    context.subscriptions.push(
+        autoSilence,
+        autoSilence.onDidChange(() => updateSoundStatusBar())
+    );
     updateSoundStatusBar();
 
+    // Repository-committed .projectlabel.json overrides
+    projectConfig = new ProjectConfigFile();
+    context.subscriptions.push(
+        projectConfig,
+        projectConfig.onDidChange(() => {
+            updateLabel();
+            treeProvider.refresh();
+        })
+    );
+
+    // Track branch / dirty / ahead-behind from the built-in Git extension
+    gitWatcher = new GitWatcher();
+    context.subscriptions.push(
+        gitWatcher,
+        gitWatcher.onDidChange(() => updateLabel())
+    );
+
     // ── Tree View Sidebar ──
-    treeProvider = new ProjectLabelTreeProvider();
+    // Heartbeat file shared with the other windows
+    windowRegistry = new WindowRegistry(context.globalStorageUri);
+    context.subscriptions.push(windowRegistry);
+
+    treeProvider = new ProjectLabelTreeProvider(context.globalState, context.globalStorageUri, windowRegistry);
     const treeView = vscode.window.createTreeView('projectLabelView', {
         treeDataProvider: treeProvider,
-        showCollapseAll: false,
+        showCollapseAll: true,
+        // A sound category's checkbox is "all muted", not a parent of its signals'
+        manageCheckboxStateManually: true,
     });
-    context.subscriptions.push(treeView);
+    context.subscriptions.push(
+        treeView,
+        treeView.onDidChangeCheckboxState(e => applyTreeCheckboxes(e)),
+        // Other windows update the recent projects history behind our back
+        treeView.onDidChangeVisibility(e => e.visible && treeProvider.refresh()),
+        vscode.window.onDidChangeWindowState(e => e.focused && treeView.visible && treeProvider.refresh()),
+        windowRegistry.onDidChange(() => treeProvider.refresh())
+    );
+
+    context.subscriptions.push(
+        profileWatcher.onDidChangeProfile(detection => {
+            cachedProfileName = detection.name;
+            logProfileDetection(detection);
+            updateLabel();
+            treeProvider.refresh();
+        })
+    );
 
     // Register commands
     context.subscriptions.push(
-        vscode.commands.registerCommand('projectLabel.refresh', () => {
-            cachedProfileName = detectProfileName(context);
+        vscode.commands.registerCommand('projectLabel.refresh', async () => {
+            const detection = profileWatcher.refresh();
+            cachedProfileName = detection.name;
+            logProfileDetection(detection);
             updateLabel();
             treeProvider.refresh();
+            const action = await vscode.window.showInformationMessage(
+                `Profile: ${detection.name} (via ${detection.source})`,
+                'Show Details'
+            );
+            if (action === 'Show Details') {
+                outputChannel.show(true);
+            }
         }),
         vscode.commands.registerCommand('projectLabel.copyLabel', async () => {
             const label = buildLabelText();
@@ -50,12 +177,64 @@ export function activate(context: vscode.ExtensionContext): void {
                 vscode.window.showInformationMessage(`Copied: "${label}"`);
             }
         }),
+        vscode.commands.registerCommand('projectLabel.copyAs', async (arg?: CopyAsArg) => {
+            await copyAs(arg);
+        }),
+        vscode.commands.registerCommand('projectLabel.showMenu', async () => {
+            await showLabelMenu();
+        }),
+        vscode.commands.registerCommand('projectLabel.copyPath', async () => {
+            const projectPath = getProjectPath();
+            if (projectPath) {
+                await vscode.env.clipboard.writeText(projectPath);
+                vscode.window.showInformationMessage(`Copied: "${projectPath}"`);
+            }
+        }),
+        vscode.commands.registerCommand('projectLabel.revealProjectFolder', async () => {
+            const folder = getActiveWorkspaceFolder();
+            if (folder) {
+                await vscode.commands.executeCommand('revealFileInOS', folder.uri);
+            }
+        }),
+        vscode.commands.registerCommand('projectLabel.openTerminalAtRoot', () => {
+            const folder = getActiveWorkspaceFolder();
+            if (folder) {
+                vscode.window.createTerminal({ name: getProjectName(), cwd: folder.uri }).show();
+            }
+        }),
+        vscode.commands.registerCommand('projectLabel.cleanUpWindowTitle', async () => {
+            if (!globalState) {
+                return;
+            }
+            const cleaned = await cleanUpWindowTitles(globalState);
+            vscode.window.showInformationMessage(
+                `Removed the Project Label window title from ${cleaned} location(s).` +
+                (vscode.workspace.getConfiguration('projectLabel').get<boolean>('updateWindowTitle', true)
+                    ? ' Turn off "Update Window Title" to keep it from being written again.'
+                    : '')
+            );
+        }),
+        vscode.commands.registerCommand('projectLabel.cleanUpWorkbenchColors', async () => {
+            if (!workspaceState) {
+                return;
+            }
+            await clearWorkbenchColors(workspaceState);
+            vscode.window.showInformationMessage(
+                'Removed the Project Label workbench colors from this workspace.' +
+                (getScopedConfiguration().get<WorkbenchColorArea[]>('workbenchColors', []).length > 0
+                    ? ' Clear "Workbench Colors" to keep them from being written again.'
+                    : '')
+            );
+        }),
         vscode.commands.registerCommand('projectLabel.enableNativeTitleBar', async () => {
             await setTitleBarStyle('native');
         }),
         vscode.commands.registerCommand('projectLabel.disableNativeTitleBar', async () => {
             await setTitleBarStyle('custom');
         }),
+        vscode.commands.registerCommand('projectLabel.pinAutoColor', async () => {
+            await pinAutoColor();
+        }),
         vscode.commands.registerCommand('projectLabel.silenceCopilot', async () => {
             await setCopilotChatSilence(true);
         }),
@@ -70,26 +249,26 @@ export function activate(context: vscode.ExtensionContext): void {
         }),
         // ── Settings Panel command ──
         vscode.commands.registerCommand('projectLabel.openSettings', () => {
-            SettingsPanel.show(context.extensionUri);
+            SettingsPanel.show(context, getPanelLiveInfo, autoSilence);
         }),
-        // ── Toggle commands for tree view ──
-        vscode.commands.registerCommand('projectLabel.toggleShowProjectName', async () => {
-            await toggleBoolSetting('showProjectName');
+        // ── Toggle commands for tree view (optional scope arg: user / workspace / folder) ──
+        vscode.commands.registerCommand('projectLabel.toggleShowProjectName', async (scope?: SettingScope) => {
+            await toggleBoolSetting('showProjectName', scope);
         }),
-        vscode.commands.registerCommand('projectLabel.toggleShowProfile', async () => {
-            await toggleBoolSetting('showProfile');
+        vscode.commands.registerCommand('projectLabel.toggleShowProfile', async (scope?: SettingScope) => {
+            await toggleBoolSetting('showProfile', scope);
         }),
-        vscode.commands.registerCommand('projectLabel.toggleShowInStatusBar', async () => {
-            await toggleBoolSetting('showInStatusBar');
+        vscode.commands.registerCommand('projectLabel.toggleShowInStatusBar', async (scope?: SettingScope) => {
+            await toggleBoolSetting('showInStatusBar', scope);
         }),
-        vscode.commands.registerCommand('projectLabel.toggleUpdateWindowTitle', async () => {
-            await toggleBoolSetting('updateWindowTitle');
+        vscode.commands.registerCommand('projectLabel.toggleUpdateWindowTitle', async (scope?: SettingScope) => {
+            await toggleBoolSetting('updateWindowTitle', scope);
         }),
-        vscode.commands.registerCommand('projectLabel.toggleNativeTitleBar', async () => {
-            await toggleBoolSetting('useNativeTitleBar');
+        vscode.commands.registerCommand('projectLabel.toggleNativeTitleBar', async (scope?: SettingScope) => {
+            await toggleBoolSetting('useNativeTitleBar', scope);
         }),
-        vscode.commands.registerCommand('projectLabel.toggleSilenceCopilot', async () => {
-            await toggleBoolSetting('silenceCopilotChat');
+        vscode.commands.registerCommand('projectLabel.toggleSilenceCopilot', async (scope?: SettingScope) => {
+            await toggleBoolSetting('silenceCopilotChat', scope);
         }),
         vscode.commands.registerCommand('projectLabel.toggleSilenceAllSounds', async () => {
             // Use actual signal state as ground truth instead of
@@ -101,6 +280,87 @@ export function activate(context: vscode.ExtensionContext): void {
                 currentlySilent = sample?.sound === 'off';
             } catch { /* ignore */ }
             await setSilenceAllSounds(!currentlySilent);
+        }),
+        vscode.commands.registerCommand('projectLabel.silenceAllAnnouncements', async () => {
+            await setSilenceAllAnnouncements(true);
+        }),
+        vscode.commands.registerCommand('projectLabel.unsilenceAllAnnouncements', async () => {
+            await setSilenceAllAnnouncements(false);
+        }),
+        vscode.commands.registerCommand('projectLabel.toggleSilenceAllAnnouncements', async () => {
+            await setSilenceAllAnnouncements(!areAllSignalsOff(getAnnouncementSignalKeys(), 'announcement'));
+        }),
+        vscode.commands.registerCommand('projectLabel.silenceSignal', async (arg?: SignalArg, field?: SignalField) => {
+            await pickAndSetSignal(true, arg, field);
+        }),
+        vscode.commands.registerCommand('projectLabel.unsilenceSignal', async (arg?: SignalArg, field?: SignalField) => {
+            await pickAndSetSignal(false, arg, field);
+        }),
+        vscode.commands.registerCommand('projectLabel.silenceFor', async (minutes?: number) => {
+            await silenceFor(minutes);
+        }),
+        vscode.commands.registerCommand('projectLabel.endQuietTime', async () => {
+            await quietHours?.end();
+        }),
+        vscode.commands.registerCommand('projectLabel.enterZenMode', async () => {
+            // Bound and offered only while !inZenMode, so this always enters
+            await vscode.commands.executeCommand('workbench.action.toggleZenMode');
+            await autoSilence?.setManualTrigger('zenMode', true);
+        }),
+        vscode.commands.registerCommand('projectLabel.exitZenMode', async () => {
+            await vscode.commands.executeCommand('workbench.action.exitZenMode');
+            await autoSilence?.setManualTrigger('zenMode', false);
+        }),
+        vscode.commands.registerCommand('projectLabel.togglePresentationMode', async () => {
+            await toggleTrackedMode('presentation', 'workbench.action.toggleScreencastMode');
+        }),
+        vscode.commands.registerCommand('projectLabel.switchSoundPreset', async (name?: string) => {
+            await switchSoundPreset(name);
+        }),
+        vscode.commands.registerCommand('projectLabel.saveSoundPreset', async () => {
+            await saveCurrentSoundPreset();
+        }),
+        vscode.commands.registerCommand('projectLabel.deleteSoundPreset', async () => {
+            await pickAndDeleteSoundPreset();
+        }),
+        vscode.commands.registerCommand('projectLabel.exportSoundPresets', async () => {
+            await exportSoundPresets();
+        }),
+        vscode.commands.registerCommand('projectLabel.openSetting', async (item?: SettingItem | string) => {
+            const settingId = typeof item === 'string' ? item : item?.settingId;
+            await vscode.commands.executeCommand('workbench.action.openSettings', settingId ?? 'projectLabel');
+        }),
+        vscode.commands.registerCommand('projectLabel.resetSetting', async (item?: SettingItem | string) => {
+            const settingId = typeof item === 'string' ? item : item?.settingId;
+            await resetSetting(settingId?.replace(/^projectLabel\./, ''));
+        }),
+        vscode.commands.registerCommand('projectLabel.switchProject', async () => {
+            await switchProject(context.globalStorageUri);
+        }),
+        vscode.commands.registerCommand('projectLabel.listWindows', async () => {
+            await listWindows();
+        }),
+        vscode.commands.registerCommand('projectLabel.focusWindow', async (uri?: string) => {
+            await focusWindow(uri);
+        }),
+        vscode.commands.registerCommand('projectLabel.openRecentProject', async (arg?: SettingItem | string) => {
+            await openRecentProjectByUri(typeof arg === 'string' ? arg : arg?.projectUri, false);
+        }),
+        vscode.commands.registerCommand('projectLabel.openRecentProjectInNewWindow', async (arg?: SettingItem | string) => {
+            await openRecentProjectByUri(typeof arg === 'string' ? arg : arg?.projectUri, true);
+        }),
+        vscode.commands.registerCommand('projectLabel.removeRecentProject', async (arg?: SettingItem | string) => {
+            const uri = typeof arg === 'string' ? arg : arg?.projectUri;
+            if (uri && globalState) {
+                await removeRecentProject(globalState, uri);
+                treeProvider.refresh();
+            }
+        }),
+        vscode.commands.registerCommand('projectLabel.exportConfig', async () => {
+            await exportConfig();
+        }),
+        vscode.commands.registerCommand('projectLabel.importConfig', async (uri?: vscode.Uri) => {
+            await importConfig(uri);
         })
     );
 
@@ -113,22 +373,21 @@ export function activate(context: vscode.ExtensionContext): void {
     // Apply silence all sounds setting
     applySilenceAllSoundsSetting();
 
-    // Recreate status bar item when alignment/priority changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration((e) => {
             if (e.affectsConfiguration('projectLabel')) {
-                if (e.affectsConfiguration('projectLabel.alignment') ||
-                    e.affectsConfiguration('projectLabel.priority')) {
-                    statusBarItem.dispose();
-                    statusBarItem = createStatusBarItem();
-                    context.subscriptions.push(statusBarItem);
-                }
                 if (e.affectsConfiguration('projectLabel.useNativeTitleBar')) {
                     applyNativeTitleBarSetting();
                 }
                 if (e.affectsConfiguration('projectLabel.silenceCopilotChat')) {
                     applyCopilotSilenceSetting();
                 }
+                if (e.affectsConfiguration('projectLabel.autoSilence')) {
+                    autoSilence?.refresh();
+                }
+                if (e.affectsConfiguration('projectLabel.quietHours')) {
+                    quietHours?.refresh();
+                }
                 if (e.affectsConfiguration('projectLabel.silenceAllSounds')) {
                     applySilenceAllSoundsSetting();
                     updateSoundStatusBar();
@@ -139,122 +398,89 @@ export function activate(context: vscode.ExtensionContext): void {
         })
     );
 
-    // Listen for workspace folder changes
+    // Keep the sound status bar item's preset name in step with the signals,
+    // however they were changed. Applying a preset writes dozens of signals,
+    // so coalesce the burst.
+    let soundStatusDebounce: ReturnType<typeof setTimeout> | undefined;
     context.subscriptions.push(
-        vscode.workspace.onDidChangeWorkspaceFolders(() => updateLabel())
+        vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('accessibility.signals')) {
+                if (soundStatusDebounce) {
+                    clearTimeout(soundStatusDebounce);
+                }
+                soundStatusDebounce = setTimeout(() => {
+                    soundStatusDebounce = undefined;
+                    updateSoundStatusBar();
+                    treeProvider.refresh();
+                }, 150);
+            }
+        }),
+        { dispose: () => soundStatusDebounce && clearTimeout(soundStatusDebounce) }
     );
 
-    // Initial update
-    updateLabel();
-}
-
-function createStatusBarItem(): vscode.StatusBarItem {
-    const config = vscode.workspace.getConfiguration('projectLabel');
-    const alignment = config.get<string>('alignment') === 'right'
-        ? vscode.StatusBarAlignment.Right
-        : vscode.StatusBarAlignment.Left;
-    const priority = config.get<number>('priority', 1000);
-
-    const item = vscode.window.createStatusBarItem(alignment, priority);
-    item.command = 'projectLabel.copyLabel';
-    return item;
-}
-
-function getProjectName(): string {
-    const folders = vscode.workspace.workspaceFolders;
-    if (folders && folders.length > 0) {
-        return folders[0].name;
-    }
-    return 'No Folder';
-}
-
-function getProjectPath(): string {
-    const folders = vscode.workspace.workspaceFolders;
-    if (folders && folders.length > 0) {
-        return folders[0].uri.fsPath;
-    }
-    return '';
-}
-
-/**
- * Detect the active VS Code profile name.
- *
- * Strategy (in priority order):
- * 1. globalStorageUri contains the profile ID for non-default profiles
- *    e.g. ~/.config/Code/User/profiles/<profileId>/globalStorage/<extensionId>
- *    We extract <profileId> and look it up in profiles.json.
- * 2. VSCODE_PROFILE env var (set by some VS Code builds).
- * 3. Falls back to "Default".
- */
-function detectProfileName(context: vscode.ExtensionContext): string {
-    // --- Method 1: Parse profile ID from globalStorageUri ---
-    try {
-        const globalStoragePath = context.globalStorageUri.fsPath;
-        // Non-default profile path: .../User/profiles/<profileId>/globalStorage/...
-        const profileIdMatch = globalStoragePath.match(
-            /[/\\]profiles[/\\]([a-f0-9-]+)[/\\]globalStorage/i
-        );
+    // Listen for workspace folder changes
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            updateLabel();
+            treeProvider.refresh();
+        })
+    );
 
-        if (profileIdMatch) {
-            const profileId = profileIdMatch[1];
-            const configDir = getVSCodeConfigDir();
-            const profileListPath = path.join(configDir, 'User', 'profiles.json');
-
-            if (fs.existsSync(profileListPath)) {
-                const raw = fs.readFileSync(profileListPath, 'utf-8');
-                const profilesData = JSON.parse(raw);
-                const profiles: Array<{ name?: string; location?: string }> =
-                    Array.isArray(profilesData) ? profilesData : (profilesData?.profiles ?? []);
-
-                for (const p of profiles) {
-                    if (p.location === profileId && p.name) {
-                        return p.name;
-                    }
-                }
+    // Multi-root: follow the active editor's folder (only re-render when
+    // the resolved folder actually changes, not on every editor switch)
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(() => {
+            const followActive = vscode.workspace
+                .getConfiguration('projectLabel')
+                .get<boolean>('followActiveEditor', false);
+            if (!followActive || getActiveFolderKey() === lastFolderKey) {
+                return;
             }
-            // If we found a profile ID but couldn't resolve the name, show the ID
-            return profileId.substring(0, 8);
-        }
-    } catch {
-        // Ignore — fall through to next method
-    }
-
-    // --- Method 2: Environment variable ---
-    const envProfile = process.env['VSCODE_PROFILE'];
-    if (envProfile) {
-        return envProfile;
-    }
+            updateLabel();
+            treeProvider.refresh();
+        })
+    );
 
-    return 'Default';
+    // Initial update
+    updateLabel();
 }
 
-function getVSCodeConfigDir(): string {
-    const homeDir = os.homedir();
-
-    switch (process.platform) {
-        case 'win32':
-            return path.join(
-                process.env['APPDATA'] || path.join(homeDir, 'AppData', 'Roaming'),
-                'Code'
-            );
-        case 'darwin':
-            return path.join(homeDir, 'Library', 'Application Support', 'Code');
-        default:
-            return path.join(homeDir, '.config', 'Code');
+/** Log how the profile name was found to the "Project Label" output channel. */
+function logProfileDetection(detection: ProfileDetection): void {
+    outputChannel.appendLine(`[profile] "${detection.name}" via ${detection.source}`);
+    for (const step of detection.trace) {
+        outputChannel.appendLine(`  ${step}`);
     }
 }
 
 function buildLabelText(): string {
-    const config = vscode.workspace.getConfiguration('projectLabel');
+    const config = getScopedConfiguration();
+
+    // Path-based rule label wins over the global settings
+    const ruleLabel = resolveActiveRule()?.rule.label;
+    if (ruleLabel) {
+        const result = resolveLabelTemplate(ruleLabel, buildTemplateValues());
+        reportTemplateErrors(ruleLabel, result.errors);
+        return result.text.trim();
+    }
 
     // Custom label override
-    const customLabel = config.get<string>('customLabel', '');
+    const customLabel = projectConfig.getSetting<string>('customLabel', '');
     if (customLabel) {
         return customLabel;
     }
 
+    // Template takes precedence over the project/separator/profile toggles
+    const labelTemplate = config.get<string>('labelTemplate', '');
+    if (labelTemplate) {
+        const result = resolveLabelTemplate(labelTemplate, buildTemplateValues());
+        reportTemplateErrors(labelTemplate, result.errors);
+        return result.text.trim();
+    }
+
     const showProject = config.get<boolean>('showProjectName', true);
     const showProfile = config.get<boolean>('showProfile', true);
+    const showGitBranch = config.get<boolean>('showGitBranch', false);
     const separator = config.get<string>('separator', ' | ');
 
     const parts: string[] = [];
@@ -271,26 +497,96 @@ function buildLabelText(): string {
         }
     }
 
+    if (showGitBranch) {
+        const git = getGitInfo();
+        if (git?.branch) {
+            parts.push(formatGitStatus(git));
+        }
+    }
+
     return parts.join(separator);
 }
 
+/**
+ * Token values available to projectLabel.labelTemplate.
+ * ${profile} is empty for the Default profile, matching buildLabelText().
+ */
+function buildTemplateValues(): TemplateValues {
+    const profileName = cachedProfileName ?? 'Default';
+    const git = getGitInfo();
+    return {
+        project: getProjectName(),
+        profile: profileName === 'Default' ? '' : profileName,
+        folderPath: getProjectPath(),
+        workspaceName: vscode.workspace.name ?? '',
+        remote: vscode.env.remoteName ?? '',
+        branch: git?.branch ?? '',
+        dirty: git?.dirty ? '*' : '',
+        ahead: git?.ahead ? String(git.ahead) : '',
+        behind: git?.behind ? String(git.behind) : '',
+        git: git?.branch ? formatGitStatus(git) : '',
+    };
+}
+
+/** Git state of the labelled folder, or undefined outside a repository. */
+function getGitInfo(): GitInfo | undefined {
+    return gitWatcher?.getInfo(getActiveWorkspaceFolder()?.uri);
+}
+
+/**
+ * Warn once per template about unknown or malformed tokens, instead of
+ * on every label refresh. Each setting (and each segment) remembers its
+ * own last warning, so one valid template never re-arms another's.
+ */
+function reportTemplateErrors(template: string, errors: string[], setting = 'labelTemplate'): void {
+    if (errors.length === 0) {
+        lastTemplateWarnings.delete(setting);
+        return;
+    }
+    if (lastTemplateWarnings.get(setting) === template) {
+        return;
+    }
+    lastTemplateWarnings.set(setting, template);
+    vscode.window.showWarningMessage(
+        `Project Label: invalid ${setting} — ${errors.join('; ')}`
+    );
+}
+
 function updateLabel(): void {
-    const config = vscode.workspace.getConfiguration('projectLabel');
-    const icon = config.get<string>('icon', '$(bracket-dot)');
-    const color = config.get<string>('color', '');
+    const config = getScopedConfiguration();
+    const match = resolveActiveRule();
+    const icon = match?.rule.icon ?? projectConfig.getSetting<string>('icon', '$(bracket-dot)');
+    const configuredColor = match?.rule.color ?? projectConfig.getSetting<string>('color', '');
+    const color = isAutoColor(configuredColor) ? getAutoColor() : configuredColor;
     const updateTitle = config.get<boolean>('updateWindowTitle', true);
 
+    lastFolderKey = getActiveFolderKey();
+    SettingsPanel.refreshLiveInfo();
+
+    // Per-project title bar / status bar / activity bar colors
+    const workbenchAreas = config.get<WorkbenchColorArea[]>('workbenchColors', []);
+    if (workspaceState) {
+        syncWorkbenchColors(workspaceState, workbenchAreas.length > 0 ? color : undefined, workbenchAreas);
+    }
+
     const labelText = buildLabelText();
 
     if (!labelText) {
-        statusBarItem.hide();
+        statusSegments.clear();
         return;
     }
 
     const showInStatusBar = config.get<boolean>('showInStatusBar', true);
 
-    // Build display text with optional icon
-    statusBarItem.text = icon ? `${icon} ${labelText}` : labelText;
+    recordWindowProject(labelText, icon, color);
+    windowRegistry?.update({
+        label: labelText,
+        icon,
+        color,
+        path: getWindowProjectUri()?.uri.fsPath ?? '',
+        uri: getWindowProjectUri()?.uri.toString(),
+        profile: cachedProfileName ?? 'Default',
+    });
 
     const projectPath = getProjectPath();
     const tooltipMd = new vscode.MarkdownString('', true);
@@ -299,34 +595,264 @@ function updateLabel(): void {
     if (projectPath) {
         tooltipMd.appendMarkdown(`**Path:** \`${projectPath}\`\n\n`);
     }
+    if (projectConfig.current) {
+        tooltipMd.appendMarkdown('**Config:** `.projectlabel.json`\n\n');
+    }
     tooltipMd.appendMarkdown(`**Profile:** ${cachedProfileName ?? 'Default'}\n\n`);
-    tooltipMd.appendMarkdown('---\n\n*Click to copy label*');
-    statusBarItem.tooltip = tooltipMd;
-
-    // Apply color — supports both hex (#rrggbb) and theme color tokens
-    if (color) {
-        statusBarItem.color = color.startsWith('#') ? color : new vscode.ThemeColor(color);
-    } else {
-        statusBarItem.color = undefined;
+    const git = getGitInfo();
+    if (git?.branch) {
+        tooltipMd.appendMarkdown(`**Branch:** $(git-branch) ${formatGitStatus(git)}\n\n`);
     }
+    if (match) {
+        tooltipMd.appendMarkdown(`**Rule:** ${describeRule(match)}\n\n`);
+    }
+    const clickAction = getClickAction();
+    tooltipMd.appendMarkdown(`---\n\n*${clickAction.hint}*`);
 
     if (showInStatusBar) {
-        statusBarItem.show();
+        // When the status bar itself is painted with the project color, let
+        // the items inherit the computed statusBar.foreground instead.
+        const paintedStatusBar = workbenchAreas.includes('statusBar') && isWorkbenchColor(color);
+        statusSegments.render(buildStatusSegments({
+            label: labelText,
+            icon,
+            color: paintedStatusBar ? '' : color,
+            tooltip: tooltipMd,
+            backgroundColor: match ? ruleBackgroundColor(match.rule) : undefined,
+            command: clickAction.command,
+        }));
     } else {
-        statusBarItem.hide();
-    }
-
-    // Update window title bar (displays near Help button in title bar)
-    if (updateTitle) {
-        const template = config.get<string>('titleTemplate',
-            '[${label}] ${activeEditorShort}${separator}${rootName}');
-        const titleWithLabel = template.replace(/\$\{label\}/g, labelText);
-        vscode.workspace.getConfiguration('window').update(
-            'title',
-            titleWithLabel,
-            vscode.ConfigurationTarget.Workspace
+        statusSegments.clear();
+    }
+
+    // Update window title bar (displays near Help button in title bar).
+    // Only values we wrote are ever changed — see syncWindowTitle.
+    const titleTarget = config.get<WindowTitleTarget>('windowTitleTarget', 'workspace');
+    if (globalState) {
+        if (lastTitleTarget && lastTitleTarget !== titleTarget) {
+            clearWindowTitle(globalState, lastTitleTarget);
+        }
+        lastTitleTarget = titleTarget;
+
+        if (updateTitle) {
+            syncWindowTitle(globalState, buildWindowTitleTemplate(labelText, titleTarget), titleTarget);
+        } else {
+            clearWindowTitle(globalState, titleTarget);
+        }
+    }
+}
+
+/** What the label item shows; also the defaults for every segment. */
+interface LabelDefaults {
+    label: string;
+    icon: string;
+    /** Hex color or theme color token; empty for the theme default. */
+    color: string;
+    tooltip: vscode.MarkdownString;
+    backgroundColor?: vscode.ThemeColor;
+    command: string;
+}
+
+/**
+ * Status bar items for the label: one per `projectLabel.segments` entry
+ * whose text renders non-empty, or the single label item when no segments
+ * are configured. Segments without their own alignment or priority follow
+ * `projectLabel.alignment` / `priority`, keeping the list order.
+ */
+function buildStatusSegments(defaults: LabelDefaults): ResolvedSegment[] {
+    const config = getScopedConfiguration();
+    const toAlignment = (value: unknown) => value === 'right'
+        ? vscode.StatusBarAlignment.Right
+        : vscode.StatusBarAlignment.Left;
+    const alignment = toAlignment(config.get<string>('alignment'));
+    const priority = config.get<number>('priority', 1000);
+    const segments = getSegmentConfigs();
+
+    if (segments.length === 0) {
+        return [{
+            id: 'label',
+            name: 'Project Label',
+            text: defaults.icon ? `${defaults.icon} ${defaults.label}` : defaults.label,
+            tooltip: defaults.tooltip,
+            color: toStatusBarColor(defaults.color),
+            backgroundColor: defaults.backgroundColor,
+            command: defaults.command,
+            alignment,
+            priority,
+        }];
+    }
+
+    const ids = resolveSegmentIds(segments);
+    const values: TemplateValues = { ...buildTemplateValues(), label: defaults.label };
+    return segments.flatMap((segment, index): ResolvedSegment[] => {
+        const id = ids[index];
+        const result = resolveLabelTemplate(segment.text, values);
+        reportTemplateErrors(segment.text, result.errors, `segments (${id})`);
+        const text = result.text.trim();
+        if (!text) {
+            return [];
+        }
+        const icon = typeof segment.icon === 'string' ? segment.icon : '';
+        const color = typeof segment.color === 'string'
+            ? (isAutoColor(segment.color) ? getAutoColor() : segment.color)
+            : defaults.color;
+        const command = typeof segment.command === 'object' && segment.command
+            ? {
+                command: segment.command.command,
+                title: segment.command.command,
+                arguments: segment.command.args === undefined ? [] : [segment.command.args],
+            }
+            : segment.command ?? defaults.command;
+        return [{
+            id,
+            name: `Project Label: ${segment.id ?? text}`,
+            text: icon ? `${icon} ${text}` : text,
+            tooltip: typeof segment.tooltip === 'string'
+                ? resolveLabelTemplate(segment.tooltip, values).text
+                : defaults.tooltip,
+            color: toStatusBarColor(color),
+            backgroundColor: defaults.backgroundColor,
+            command,
+            alignment: segment.alignment ? toAlignment(segment.alignment) : alignment,
+            priority: typeof segment.priority === 'number' ? segment.priority : priority - index,
+        }];
+    });
+}
+
+/**
+ * Each segment's status bar item id: its `id`, or its position when it has
+ * none. A repeated id would make two segments share one item, so later
+ * ones get their position appended and the user is warned once.
+ */
+function resolveSegmentIds(segments: readonly SegmentConfig[]): string[] {
+    const seen = new Set<string>();
+    const duplicates: string[] = [];
+    const ids = segments.map((segment, index) => {
+        let id = typeof segment.id === 'string' && segment.id ? segment.id : String(index);
+        if (seen.has(id)) {
+            duplicates.push(id);
+            id = `${id}#${index}`;
+        }
+        seen.add(id);
+        return id;
+    });
+    const warning = [...new Set(duplicates)].join(', ');
+    if (warning && warning !== lastDuplicateSegmentWarning) {
+        vscode.window.showWarningMessage(
+            `Project Label: duplicate projectLabel.segments id(s): ${warning}. Give each segment its own id.`
         );
     }
+    lastDuplicateSegmentWarning = warning;
+    return ids;
+}
+
+/** Hex colors are used as-is; anything else is a theme color token. */
+function toStatusBarColor(color: string): string | vscode.ThemeColor | undefined {
+    if (!color) {
+        return undefined;
+    }
+    return color.startsWith('#') ? color : new vscode.ThemeColor(color);
+}
+
+/**
+ * titleTemplate with `${label}` filled in — the value written to
+ * window.title. The user settings are shared by every window, so for the
+ * Global target `${label}` becomes VS Code's own `${rootName}`, which each
+ * window expands for itself.
+ */
+function buildWindowTitleTemplate(labelText: string, target: WindowTitleTarget): string {
+    const template = projectConfig.getSetting<string>('titleTemplate',
+        '[${label}] ${activeEditorShort}${separator}${rootName}');
+    return template.replace(/\$\{label\}/g, target === 'global' ? '${rootName}' : labelText);
+}
+
+/**
+ * Values of VS Code's window.title variables for this window, so the
+ * settings panel can preview the title VS Code will actually show.
+ */
+function buildWindowTitleValues(): WindowTitleValues {
+    const document = vscode.window.activeTextEditor?.document;
+    const file = document && !document.isUntitled ? document.uri.fsPath : undefined;
+    const fileFolder = document ? vscode.workspace.getWorkspaceFolder(document.uri) : undefined;
+    const rootFolder = vscode.workspace.workspaceFolders?.[0];
+    const relative = (target: string) => fileFolder ? path.relative(fileFolder.uri.fsPath, target) : target;
+    const git = getGitInfo();
+    const profile = cachedProfileName ?? 'Default';
+
+    return {
+        activeEditorShort: document ? (file ? path.basename(file) : document.uri.path) : '',
+        activeEditorMedium: file ? relative(file) : '',
+        activeEditorLong: file ?? '',
+        activeFolderShort: file ? path.basename(path.dirname(file)) : '',
+        activeFolderMedium: file ? relative(path.dirname(file)) : '',
+        activeFolderLong: file ? path.dirname(file) : '',
+        folderName: (fileFolder ?? rootFolder)?.name ?? '',
+        folderPath: (fileFolder ?? rootFolder)?.uri.fsPath ?? '',
+        rootName: vscode.workspace.name ?? '',
+        rootNameShort: vscode.workspace.name ?? '',
+        rootPath: vscode.workspace.workspaceFile?.fsPath ?? rootFolder?.uri.fsPath ?? '',
+        appName: vscode.env.appName,
+        remoteName: vscode.env.remoteName ?? '',
+        dirty: document?.isDirty ? '● ' : '',
+        profileName: profile === 'Default' ? '' : profile,
+        activeRepositoryName: git?.branch ? getActiveWorkspaceFolder()?.name ?? '' : '',
+        activeRepositoryBranchName: git?.branch ?? '',
+        focusedView: '',
+    };
+}
+
+/** What the settings panel preview shows: the real label and title. */
+function getPanelLiveInfo(): PanelLiveInfo {
+    const match = resolveActiveRule();
+    const configuredColor = match?.rule.color ?? projectConfig.getSetting<string>('color', '');
+    const label = buildLabelText();
+    return {
+        autoColor: getAutoColor(),
+        label,
+        icon: match?.rule.icon ?? projectConfig.getSetting<string>('icon', '$(bracket-dot)'),
+        color: isAutoColor(configuredColor) ? getAutoColor() : configuredColor,
+        windowTitle: expandWindowTitle(
+            buildWindowTitleTemplate(label, getScopedConfiguration().get<WindowTitleTarget>('windowTitleTarget', 'workspace')),
+            buildWindowTitleValues(),
+            vscode.workspace.getConfiguration('window').get<string>('titleSeparator')
+        ),
+        templateValues: buildTemplateValues(),
+    };
+}
+
+// ── Auto Color ───────────────────────────────────────────────────
+
+/**
+ * Stable palette color derived from projectLabel.autoColorSource.
+ * The remote source falls back to the project name outside a repository.
+ */
+function getAutoColor(): string {
+    const source = getScopedConfiguration().get<AutoColorSource>('autoColorSource', 'projectName');
+
+    switch (source) {
+        case 'profile':
+            return autoColorFor(cachedProfileName ?? 'Default');
+        case 'remote': {
+            const remoteUrl = getGitInfo()?.remoteUrl;
+            return autoColorFor(remoteUrl ? normalizeRemoteUrl(remoteUrl) : getProjectName());
+        }
+        default:
+            return autoColorFor(getProjectName());
+    }
+}
+
+/**
+ * Replace "auto" with the currently derived color so it no longer changes
+ * when the project is renamed. Written to the workspace when one is open,
+ * since the whole point is a per-project color.
+ */
+async function pinAutoColor(): Promise<void> {
+    const color = getAutoColor();
+    const target = vscode.workspace.workspaceFolders?.length
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('projectLabel').update('color', color, target);
+    vscode.window.showInformationMessage(`Pinned label color ${color}.`);
 }
 
 /**
@@ -385,29 +911,54 @@ async function setTitleBarStyle(style: 'native' | 'custom'): Promise<void> {
 // ── Toggle Helper ────────────────────────────────────────────────
 
 /**
- * Toggle a boolean setting under projectLabel.* and refresh tree view.
+ * Flip a boolean setting at `scope`. Without a scope the value is flipped
+ * where it is currently defined, so a workspace override isn't shadowed
+ * by a pointless user-level write.
  */
-async function toggleBoolSetting(key: string): Promise<void> {
-    const config = vscode.workspace.getConfiguration('projectLabel');
-    const current = config.get<boolean>(key, false);
-    await config.update(key, !current, vscode.ConfigurationTarget.Global);
+async function toggleBoolSetting(key: string, scope?: SettingScope): Promise<void> {
+    const current = getScopedConfiguration().get<boolean>(key, false);
+    await setBoolSetting(key, !current, scope);
 }
 
-// ── Copilot Chat Silence ─────────────────────────────────────────
+/** Write a boolean setting at `scope`, or where it is currently defined. */
+async function setBoolSetting(key: string, value: boolean, scope?: SettingScope): Promise<void> {
+    const defining = getDefiningScope(key);
+    const target = isSettingScope(scope) ? scope : (defining === 'default' ? 'user' : defining);
+    await updateScopedSetting(key, value, target);
+}
 
-/** All accessibility.signals keys related to GitHub Copilot Chat */
-const COPILOT_CHAT_SIGNALS = [
-    'chatEditModifiedFile',
-    'chatRequestSent',
-    'chatResponseReceived',
-    'chatUserActionRequired',
-    'editsKept',
-    'nextEditSuggestion',
-    'codeActionApplied',
-    'codeActionTriggered',
-    'clear',
-    'progress',
-] as const;
+/** Remove `key`'s value at the scope that defines it, inheriting the next one. */
+async function resetSetting(key: string | undefined): Promise<void> {
+    if (!key) {
+        return;
+    }
+    const defining = getDefiningScope(key);
+    if (defining !== 'default') {
+        await updateScopedSetting(key, undefined, defining);
+    }
+}
+
+// ── Tree View Checkboxes ─────────────────────────────────────────
+
+async function applyTreeCheckboxes(e: vscode.TreeCheckboxChangeEvent<SettingItem>): Promise<void> {
+    for (const [item, state] of e.items) {
+        const checked = state === vscode.TreeItemCheckboxState.Checked;
+        switch (item.checkbox?.kind) {
+            case 'setting':
+                await setBoolSetting(item.checkbox.key, checked);
+                break;
+            case 'signals':
+                await setSignalsSilenced(item.checkbox.keys, checked);
+                break;
+            case 'allSounds':
+                await setSilenceAllSounds(checked);
+                break;
+        }
+    }
+    treeProvider.refresh();
+}
+
+// ── Copilot Chat Silence ─────────────────────────────────────────
 
 /**
  * Apply the silenceCopilotChat setting on activation or config change.
@@ -423,15 +974,11 @@ async function applyCopilotSilenceSetting(): Promise<void> {
 }
 
 /**
- * Set all Copilot Chat related accessibility signals to off or on.
+ * Silence all Copilot Chat related accessibility signals, or restore the
+ * values they had before (see soundSnapshot).
  */
 async function setCopilotChatSilence(silent: boolean): Promise<void> {
-    const signals = vscode.workspace.getConfiguration('accessibility.signals');
-    const value = { sound: silent ? 'off' : 'on' };
-
-    for (const key of COPILOT_CHAT_SIGNALS) {
-        await signals.update(key, value, vscode.ConfigurationTarget.Global);
-    }
+    await setSignalsSilenced(getSignalKeysInGroup('copilot'), silent);
 
     // Also sync our own setting
     await vscode.workspace.getConfiguration('projectLabel').update(
@@ -449,33 +996,6 @@ async function setCopilotChatSilence(silent: boolean): Promise<void> {
 
 // ── Silence ALL VS Code Sounds ──────────────────────────────────
 
-/** All accessibility.signals keys in VS Code */
-const ALL_SOUND_SIGNALS = [
-    // Copilot / Chat
-    'chatEditModifiedFile', 'chatRequestSent', 'chatResponseReceived',
-    'chatUserActionRequired', 'editsKept', 'nextEditSuggestion',
-    'codeActionApplied', 'codeActionTriggered', 'clear', 'progress',
-    // Editor
-    'lineHasBreakpoint', 'lineHasError', 'lineHasFoldedArea',
-    'lineHasInlineSuggestion', 'lineHasWarning', 'noInlayHints',
-    'onDebugBreak',
-    // Tasks
-    'taskCompleted', 'taskFailed',
-    // Terminal
-    'terminalBell', 'terminalCommandFailed', 'terminalCommandSucceeded',
-    'terminalQuickFix',
-    // Diff
-    'diffLineDeleted', 'diffLineInserted', 'diffLineModified',
-    // Notebook
-    'notebookCellCompleted', 'notebookCellFailed',
-    // Voice
-    'voiceRecordingStarted', 'voiceRecordingStopped',
-    // Save
-    'save', 'format',
-    // Position
-    'positionHasError', 'positionHasWarning',
-] as const;
-
 /**
  * Apply the silenceAllSounds setting on activation or config change.
  */
@@ -490,20 +1010,17 @@ async function applySilenceAllSoundsSetting(): Promise<void> {
 }
 
 /**
- * Set ALL VS Code accessibility signals to off or on.
+ * Silence ALL VS Code accessibility signals, or restore the values they
+ * had before (see soundSnapshot).
  */
 async function setSilenceAllSounds(silent: boolean): Promise<void> {
-    const signals = vscode.workspace.getConfiguration('accessibility.signals');
-    const value = { sound: silent ? 'off' : 'on' };
-
-    // Update ALL signals in parallel so they apply nearly instantly
+    // Signals are updated in parallel so they apply nearly instantly
     // instead of one-by-one (which causes delayed sound notifications).
-    await Promise.all(
-        ALL_SOUND_SIGNALS.map(key =>
-            signals.update(key, value, vscode.ConfigurationTarget.Global)
-                .then(undefined, () => { /* signal may not exist — skip */ })
-        )
-    );
+    await setSignalsSilenced(getAllSignalKeys(), silent);
+    if (!silent) {
+        // Everything is restored already — nothing left for a timer to undo
+        await quietHours?.forget();
+    }
 
     // Also sync our own setting (wrapped in try/catch — setting may not be
     // registered yet if VS Code hasn't fully reloaded after an upgrade).
@@ -527,6 +1044,779 @@ async function setSilenceAllSounds(silent: boolean): Promise<void> {
     updateSoundStatusBar();
 }
 
+// ── Screen-Reader Announcements ─────────────────────────────────
+
+/**
+ * Silence or restore the screen-reader announcement of every signal that
+ * has one, independently of its sound.
+ */
+async function setSilenceAllAnnouncements(silent: boolean): Promise<void> {
+    await setSignalsSilenced(getAnnouncementSignalKeys(), silent, 'announcement');
+    vscode.window.showInformationMessage(
+        silent
+            ? 'All screen-reader announcements silenced.'
+            : 'All screen-reader announcements restored.'
+    );
+}
+
+/** Whether `field` is "off" for every one of `keys`. */
+function areAllSignalsOff(keys: readonly string[], field: SignalField): boolean {
+    const signals = vscode.workspace.getConfiguration('accessibility.signals');
+    return keys.length > 0 &&
+        keys.every(key => signals.get<Record<string, string>>(key)?.[field] === 'off');
+}
+
+/** `(key, field)` from executeCommand, or `{ key, field }` from a keybinding's args. */
+type SignalArg = string | { key?: string; field?: SignalField };
+
+/**
+ * Silence or restore one field of one signal. Both arguments are optional
+ * so the command works from keybindings (with args) and the palette
+ * (prompting with quick picks).
+ */
+async function pickAndSetSignal(silent: boolean, arg?: SignalArg, field?: SignalField): Promise<void> {
+    const key = typeof arg === 'object' ? arg.key : arg;
+    field = typeof arg === 'object' ? arg.field : field;
+    const signalKey = key ?? (await vscode.window.showQuickPick(
+        getAllSignalKeys(),
+        { placeHolder: silent ? 'Signal to silence' : 'Signal to restore' }
+    ));
+    if (!signalKey) {
+        return;
+    }
+    const signalField = field ?? (await vscode.window.showQuickPick(
+        ['sound', 'announcement'] as SignalField[],
+        { placeHolder: 'Sound or screen-reader announcement?' }
+    ));
+    if (!signalField) {
+        return;
+    }
+    await setSignalsSilenced([signalKey], silent, signalField as SignalField);
+}
+
+/**
+ * Snapshot-and-silence or restore the given signals. Restoring puts back
+ * the user's previous values exactly (including `auto` and any
+ * `announcement` setting) rather than forcing `sound: "on"`.
+ */
+async function setSignalsSilenced(
+    keys: readonly string[],
+    silent: boolean,
+    field: SignalField = 'sound'
+): Promise<void> {
+    if (!globalState) {
+        return;
+    }
+    if (silent) {
+        await silenceSignals(globalState, keys, field);
+    } else {
+        await restoreSignals(globalState, keys, field);
+    }
+    // A deliberate choice — an auto-silence trigger ending must not undo it
+    if (field === 'sound') {
+        await autoSilence?.release(keys);
+    }
+}
+
+// ── Sound Presets ────────────────────────────────────────────────
+
+/**
+ * Apply the preset called `name`, or let the user pick one. The quick pick
+ * also offers the silence-all toggle (the sound status bar item's former
+ * click action) and saving the current state as a new preset.
+ */
+async function switchSoundPreset(name?: string): Promise<void> {
+    if (!globalState) {
+        return;
+    }
+    const entries = getSoundPresets(globalState);
+
+    if (name !== undefined) {
+        const entry = entries.find(e => e.preset.name.toLowerCase() === name.toLowerCase());
+        if (!entry) {
+            vscode.window.showWarningMessage(`Project Label: no sound preset named "${name}".`);
+            return;
+        }
+        await applyPreset(entry.preset);
+        return;
+    }
+
+    type PresetPick = vscode.QuickPickItem & { run?: () => Promise<void> };
+    const active = findActivePreset(entries);
+    const allSilent = areAllSignalsOff(getAllSignalKeys(), 'sound');
+    const quiet = quietHours?.current;
+    const items: PresetPick[] = [
+        {
+            label: allSilent ? '$(unmute) Restore All Sounds' : '$(mute) Silence All Sounds',
+            run: () => setSilenceAllSounds(!allSilent),
+        },
+        quiet
+            ? {
+                label: '$(bell) End Quiet Time Now',
+                description: `${formatRemaining(quiet.until - Date.now())} left`,
+                run: () => quietHours!.end(),
+            }
+            : { label: '$(watch) Silence for...', run: () => silenceFor() },
+        { label: 'Presets', kind: vscode.QuickPickItemKind.Separator },
+        ...entries.map((entry): PresetPick => ({
+            label: `${entry === active ? '$(check)' : '$(blank)'} ${entry.preset.name}`,
+            description: entry.builtIn ? 'built-in' : undefined,
+            detail: entry.description,
+            run: () => applyPreset(entry.preset),
+        })),
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(save) Save Current Sounds as Preset...', run: saveCurrentSoundPreset },
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: active ? `Current preset: ${active.preset.name}` : 'Switch sound preset',
+        matchOnDetail: true,
+    });
+    await picked?.run?.();
+}
+
+/** Prompt for a name and save the current per-signal states under it. */
+async function saveCurrentSoundPreset(): Promise<void> {
+    if (!globalState) {
+        return;
+    }
+    const saved = getSoundPresets(globalState).filter(e => !e.builtIn).map(e => e.preset.name);
+    const name = (await vscode.window.showInputBox({
+        prompt: 'Save the current sound and announcement states as a preset',
+        placeHolder: 'Preset name, e.g. Meetings',
+        validateInput: value => {
+            if (!value.trim()) {
+                return 'Enter a name.';
+            }
+            return isBuiltInPresetName(value) ? `"${value.trim()}" is a built-in preset.` : undefined;
+        },
+    }))?.trim();
+    if (!name) {
+        return;
+    }
+    if (saved.some(n => n.toLowerCase() === name.toLowerCase())) {
+        const overwrite = await vscode.window.showWarningMessage(
+            `A sound preset named "${name}" already exists. Replace it?`, { modal: true }, 'Replace'
+        );
+        if (overwrite !== 'Replace') {
+            return;
+        }
+    }
+    await saveSoundPreset(globalState, captureSoundPreset(name));
+    vscode.window.showInformationMessage(`Sound preset "${name}" saved.`);
+    updateSoundStatusBar();
+}
+
+async function pickAndDeleteSoundPreset(): Promise<void> {
+    if (!globalState) {
+        return;
+    }
+    const saved = getSoundPresets(globalState).filter(e => !e.builtIn);
+    if (saved.length === 0) {
+        vscode.window.showInformationMessage('There are no saved sound presets. Built-in presets cannot be deleted.');
+        return;
+    }
+    const picked = await vscode.window.showQuickPick(
+        saved.map(e => ({ label: e.preset.name, detail: e.description })),
+        { placeHolder: 'Sound preset to delete' }
+    );
+    if (picked && await deleteSoundPreset(globalState, picked.label)) {
+        vscode.window.showInformationMessage(`Sound preset "${picked.label}" deleted.`);
+        updateSoundStatusBar();
+    }
+}
+
+/**
+ * Apply `preset`. It sets every signal deliberately, so auto-silence
+ * releases them all rather than restoring them when its trigger ends.
+ */
+async function applyPreset(preset: SoundPreset): Promise<void> {
+    await applySoundPreset(globalState!, preset);
+    await autoSilence?.release(getAllSignalKeys());
+    vscode.window.showInformationMessage(`Sound preset "${preset.name}" applied.`);
+}
+
+/** Write the saved presets to a JSON file chosen by the user. */
+async function exportSoundPresets(): Promise<void> {
+    if (!globalState) {
+        return;
+    }
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, 'sound-presets.json') : undefined,
+        filters: { JSON: ['json'] },
+        title: 'Export Sound Presets',
+    });
+    if (!uri) {
+        return;
+    }
+    try {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeSoundPresets(globalState), 'utf-8'));
+        vscode.window.showInformationMessage(`Sound presets exported to ${uri.fsPath}.`);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Project Label: could not export sound presets: ${err}`);
+    }
+}
+
+// ── Copy As ──────────────────────────────────────────────────────
+
+/** One entry of the `projectLabel.copyFormats` setting. */
+interface CopyFormat {
+    name: string;
+    /** Label template syntax, with the extra tokens of `buildCopyValues()`. */
+    template: string;
+    description?: string;
+}
+
+/** A format name, or `{ format }` / `{ template }` from a keybinding's args. */
+type CopyAsArg = string | { format?: string; template?: string };
+
+/**
+ * Template values for `projectLabel.copyFormats`: the label template
+ * tokens plus the label itself, the active editor's position and the
+ * repository's web URL.
+ */
+function buildCopyValues(): TemplateValues {
+    const editor = vscode.window.activeTextEditor;
+    const document = editor?.document;
+    const file = document && !document.isUntitled ? document.uri.fsPath : '';
+    const folder = document ? vscode.workspace.getWorkspaceFolder(document.uri) : undefined;
+    const selection = editor?.selection;
+    const remoteUrl = getGitInfo()?.remoteUrl;
+    return {
+        ...buildTemplateValues(),
+        label: buildLabelText(),
+        file,
+        relativeFile: file && folder ? path.relative(folder.uri.fsPath, file).split(path.sep).join('/') : file,
+        line: selection ? String(selection.start.line + 1) : '',
+        endLine: selection && !selection.isSingleLine ? String(selection.end.line + 1) : '',
+        column: selection ? String(selection.start.character + 1) : '',
+        selectedText: selection && document ? document.getText(selection) : '',
+        remoteUrl: remoteUrl ? remoteWebUrl(remoteUrl) : '',
+    };
+}
+
+function getCopyFormats(): CopyFormat[] {
+    const formats = vscode.workspace.getConfiguration('projectLabel').get<CopyFormat[]>('copyFormats', []);
+    return (Array.isArray(formats) ? formats : [])
+        .filter(f => typeof f?.name === 'string' && typeof f.template === 'string');
+}
+
+/**
+ * Copy text rendered from a `projectLabel.copyFormats` template. Without an
+ * argument the format is picked from a quick pick showing each result.
+ */
+async function copyAs(arg?: CopyAsArg): Promise<void> {
+    const formats = getCopyFormats();
+    const values = buildCopyValues();
+    const name = typeof arg === 'object' ? arg.format : arg;
+    let template = typeof arg === 'object' ? arg.template : undefined;
+
+    if (template === undefined && name !== undefined) {
+        template = formats.find(f => f.name.toLowerCase() === name.toLowerCase())?.template;
+        if (template === undefined) {
+            vscode.window.showErrorMessage(`Project Label: no copy format named "${name}" in projectLabel.copyFormats.`);
+            return;
+        }
+    }
+    if (template === undefined) {
+        if (formats.length === 0) {
+            vscode.window.showInformationMessage('Project Label: projectLabel.copyFormats is empty.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            formats.map(f => ({
+                label: f.name,
+                description: resolveLabelTemplate(f.template, values).text,
+                detail: f.description,
+                template: f.template,
+            })),
+            { placeHolder: 'Copy as…', matchOnDescription: true }
+        );
+        if (!picked) {
+            return;
+        }
+        template = picked.template;
+    }
+
+    const result = resolveLabelTemplate(template, values);
+    if (result.errors.length > 0) {
+        vscode.window.showWarningMessage(`Project Label: copy template: ${result.errors.join('; ')}`);
+    }
+    if (!result.text) {
+        vscode.window.showInformationMessage('Project Label: nothing to copy — the format rendered empty.');
+        return;
+    }
+    await vscode.env.clipboard.writeText(result.text);
+    vscode.window.showInformationMessage(`Copied: "${result.text}"`);
+}
+
+// ── Label Menu ───────────────────────────────────────────────────
+
+type ClickAction =
+    'menu' | 'copyLabel' | 'copyPath' | 'revealFolder' | 'openTerminal' | 'switchProfile' | 'openSettings';
+
+/** `projectLabel.clickAction` → command run by clicking the label, and its tooltip hint. */
+const CLICK_ACTIONS: Record<ClickAction, { command: string; hint: string }> = {
+    menu: { command: 'projectLabel.showMenu', hint: 'Click for actions' },
+    copyLabel: { command: 'projectLabel.copyLabel', hint: 'Click to copy label' },
+    copyPath: { command: 'projectLabel.copyPath', hint: 'Click to copy path' },
+    revealFolder: { command: 'projectLabel.revealProjectFolder', hint: 'Click to reveal the folder' },
+    openTerminal: { command: 'projectLabel.openTerminalAtRoot', hint: 'Click to open a terminal' },
+    switchProfile: { command: 'workbench.profiles.actions.switchProfile', hint: 'Click to switch profile' },
+    openSettings: { command: 'projectLabel.openSettings', hint: 'Click to open settings' },
+};
+
+/** One entry of the `projectLabel.menuItems` setting. */
+interface MenuItemConfig {
+    /** Text shown in the menu; may start with a codicon such as `$(rocket)`. */
+    label: string;
+    command: string;
+    /** Passed to the command as its single argument, as with keybindings. */
+    args?: unknown;
+    description?: string;
+}
+
+function getClickAction(): { command: string; hint: string } {
+    const action = vscode.workspace.getConfiguration('projectLabel').get<string>('clickAction', 'menu');
+    return CLICK_ACTIONS[action as ClickAction] ?? CLICK_ACTIONS.menu;
+}
+
+/** Name of the OS file manager, as VS Code's own "Reveal in …" command uses it. */
+function fileManagerName(): string {
+    switch (process.platform) {
+        case 'darwin': return 'Finder';
+        case 'win32': return 'File Explorer';
+        default: return 'File Manager';
+    }
+}
+
+/**
+ * The status bar label's menu: built-in actions, then the user's own
+ * `projectLabel.menuItems`. Invalid entries are skipped.
+ */
+async function showLabelMenu(): Promise<void> {
+    type MenuPickItem = vscode.QuickPickItem & { run?: () => Thenable<unknown> };
+    const hasFolder = !!getActiveWorkspaceFolder();
+    const run = (command: string, ...args: unknown[]) => () => vscode.commands.executeCommand(command, ...args);
+
+    const items: MenuPickItem[] = [
+        { label: '$(copy) Copy Label', run: run('projectLabel.copyLabel') },
+        { label: '$(copy) Copy As...', run: run('projectLabel.copyAs') },
+    ];
+    if (hasFolder) {
+        items.push(
+            { label: '$(files) Copy Path', description: getProjectPath(), run: run('projectLabel.copyPath') },
+            { label: `$(folder-opened) Reveal in ${fileManagerName()}`, run: run('projectLabel.revealProjectFolder') },
+            { label: '$(terminal) Open Terminal at Project Root', run: run('projectLabel.openTerminalAtRoot') },
+        );
+    }
+    items.push(
+        {
+            label: '$(account) Switch Profile...',
+            description: `current: ${cachedProfileName ?? 'Default'}`,
+            run: run('workbench.profiles.actions.switchProfile'),
+        },
+        { label: '$(settings-gear) Open Settings Panel', run: run('projectLabel.openSettings') },
+    );
+
+    const custom = vscode.workspace.getConfiguration('projectLabel').get<MenuItemConfig[]>('menuItems', []);
+    const customItems: MenuPickItem[] = (Array.isArray(custom) ? custom : [])
+        .filter(i => typeof i?.label === 'string' && typeof i.command === 'string' && i.command)
+        .map(i => ({
+            label: i.label,
+            description: typeof i.description === 'string' ? i.description : undefined,
+            run: i.args === undefined ? run(i.command) : run(i.command, i.args),
+        }));
+    if (customItems.length > 0) {
+        items.push({ label: 'Custom', kind: vscode.QuickPickItemKind.Separator }, ...customItems);
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: buildLabelText() || getProjectName(),
+        placeHolder: 'Project Label actions',
+    });
+    if (!picked?.run) {
+        return;
+    }
+    try {
+        await picked.run();
+    } catch (err) {
+        vscode.window.showErrorMessage(`Project Label: "${picked.label}" failed: ${err instanceof Error ? err.message : err}`);
+    }
+}
+
+// ── Recent Projects ──────────────────────────────────────────────
+
+/** Keep this window's entry in the shared recent projects history current. */
+function recordWindowProject(labelText: string, icon: string, color: string): void {
+    const project = getWindowProjectUri();
+    if (!globalState || !project) {
+        return;
+    }
+    const moveToTop = !recordedWindowProject;
+    recordedWindowProject = true;
+    recordRecentProject(globalState, {
+        uri: project.uri.toString(),
+        isWorkspaceFile: project.isWorkspaceFile,
+        label: labelText,
+        icon: icon ?? '',
+        color: color ?? '',
+        profile: cachedProfileName,
+    }, moveToTop).then(changed => changed && treeProvider?.refresh(), () => { /* history is best effort */ });
+}
+
+type ProjectPickItem = vscode.QuickPickItem & { project: RecentProject };
+
+const OPEN_IN_NEW_WINDOW_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('empty-window'),
+    tooltip: 'Open in New Window',
+};
+const REMOVE_PROJECT_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('close'),
+    tooltip: 'Remove from Recent Projects',
+};
+
+/**
+ * Quick pick of recent projects by label. Enter opens the project in this
+ * window; the item buttons open it in a new window or forget it.
+ */
+async function switchProject(storageUri: vscode.Uri): Promise<void> {
+    if (!globalState) {
+        return;
+    }
+    const state = globalState;
+    const current = getWindowProjectUri()?.uri.toString();
+    const toItem = async (project: RecentProject): Promise<ProjectPickItem> => ({
+        label: project.icon ? `${project.icon} ${project.label}` : project.label,
+        description: project.profile ? `Profile: ${project.profile}` : undefined,
+        detail: describeRecentProject(project),
+        iconPath: await getRecentProjectIcon(project, storageUri),
+        buttons: [OPEN_IN_NEW_WINDOW_BUTTON, REMOVE_PROJECT_BUTTON],
+        project,
+    });
+    const items = await Promise.all(getRecentProjects(state).filter(p => p.uri !== current).map(toItem));
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('Project Label: no other projects recorded yet. Projects are added when they are opened with Project Label enabled.');
+        return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<ProjectPickItem>();
+    quickPick.title = 'Switch Project';
+    quickPick.placeholder = 'Select a project to open in this window';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    quickPick.items = items;
+
+    const chosen = await new Promise<{ project: RecentProject; newWindow: boolean } | undefined>(resolve => {
+        quickPick.onDidAccept(() => {
+            const item = quickPick.selectedItems[0];
+            resolve(item && { project: item.project, newWindow: false });
+            quickPick.hide();
+        });
+        quickPick.onDidTriggerItemButton(async e => {
+            if (e.button === OPEN_IN_NEW_WINDOW_BUTTON) {
+                resolve({ project: e.item.project, newWindow: true });
+                quickPick.hide();
+                return;
+            }
+            await removeRecentProject(state, e.item.project.uri);
+            quickPick.items = quickPick.items.filter(i => i !== e.item);
+            treeProvider.refresh();
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+    if (chosen) {
+        await openRecentProjectChecked(chosen.project, chosen.newWindow);
+    }
+}
+
+async function openRecentProjectByUri(uri: string | undefined, newWindow: boolean): Promise<void> {
+    const project = uri && globalState ? getRecentProjects(globalState).find(p => p.uri === uri) : undefined;
+    if (project) {
+        await openRecentProjectChecked(project, newWindow);
+    }
+}
+
+/** Open a recent project, offering to forget it when its folder is gone. */
+async function openRecentProjectChecked(project: RecentProject, newWindow: boolean): Promise<void> {
+    const uri = vscode.Uri.parse(project.uri);
+    if (uri.scheme === 'file') {
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch {
+            const remove = await vscode.window.showWarningMessage(
+                `"${project.label}" no longer exists at ${describeRecentProject(project)}.`,
+                'Remove from Recent Projects'
+            );
+            if (remove && globalState) {
+                await removeRecentProject(globalState, project.uri);
+                treeProvider.refresh();
+            }
+            return;
+        }
+    }
+    await openRecentProject(project, newWindow);
+}
+
+// ── Open Windows ─────────────────────────────────────────────────
+
+/** Quick pick of every live window; picking one brings it to the front. */
+async function listWindows(): Promise<void> {
+    if (!windowRegistry) {
+        return;
+    }
+    await windowRegistry.refresh();
+    const windows = windowRegistry.windows;
+    const duplicates = windows.filter(w => w.duplicate).length;
+    const picked = await vscode.window.showQuickPick(
+        windows.map(w => ({
+            label: `${w.duplicate ? '$(warning) ' : ''}${w.icon ? `${w.icon} ` : ''}${w.label}`,
+            description: w.isCurrent ? 'this window' : w.path,
+            detail: [
+                `Profile: ${w.profile}`,
+                `pid ${w.pid}`,
+                `seen ${formatLastSeen(w.lastSeen)}`,
+                w.duplicate ? 'same label or folder as another window' : '',
+            ].filter(Boolean).join(' · '),
+            window: w,
+        })),
+        {
+            title: `Open Windows (${windows.length})${duplicates > 0 ? ` — ${duplicates} with a duplicate label` : ''}`,
+            placeHolder: 'Select a window to switch to it',
+            matchOnDescription: true,
+        }
+    );
+    if (picked && !picked.window.isCurrent) {
+        await focusWindow(picked.window.uri);
+    }
+}
+
+/**
+ * Bring the window that has `uri` open to the front. VS Code focuses an
+ * existing window instead of opening the folder again.
+ */
+async function focusWindow(uri: string | undefined): Promise<void> {
+    if (uri) {
+        await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.parse(uri), { forceNewWindow: true });
+    }
+}
+
+// ── Configuration Export / Import ────────────────────────────────
+
+/** Write every `projectLabel.*` setting, signal state and saved preset to a JSON file. */
+async function exportConfig(): Promise<void> {
+    if (!globalState) {
+        return;
+    }
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, 'project-label-config.json') : undefined,
+        filters: { JSON: ['json'] },
+        title: 'Export Project Label Configuration',
+    });
+    if (!uri) {
+        return;
+    }
+    try {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeConfig(globalState), 'utf-8'));
+        vscode.window.showInformationMessage(`Project Label configuration exported to ${uri.fsPath}.`);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Project Label: could not export configuration: ${err}`);
+    }
+}
+
+/**
+ * Import a file written by `exportConfig` (or a settings.json excerpt).
+ * Shows what would change and applies only the changes left checked.
+ */
+async function importConfig(uri?: vscode.Uri): Promise<void> {
+    if (!globalState || !workspaceState) {
+        return;
+    }
+    if (!uri) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { JSON: ['json'] },
+            openLabel: 'Import',
+            title: 'Import Project Label Configuration',
+        });
+        if (!picked?.length) {
+            return;
+        }
+        uri = picked[0];
+    }
+
+    let parsed: ParsedConfigFile;
+    try {
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+        parsed = parseConfigFile(text);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Project Label: could not import ${path.basename(uri.fsPath)}: ${err instanceof Error ? err.message : err}`);
+        return;
+    }
+    for (const problem of parsed.problems) {
+        outputChannel.appendLine(`[import] ${problem}`);
+    }
+
+    const changes = diffConfig(globalState, parsed.config);
+    if (changes.length === 0) {
+        vscode.window.showInformationMessage('Project Label: the current configuration already matches this file.');
+        return;
+    }
+
+    const scopes = getAvailableScopes();
+    let scope: SettingScope = 'user';
+    if (scopes.length > 1) {
+        const pickedScope = await vscode.window.showQuickPick(
+            scopes.map(s => ({ label: SCOPE_LABELS[s], scope: s })),
+            { placeHolder: 'Write the imported settings to…' }
+        );
+        if (!pickedScope) {
+            return;
+        }
+        scope = pickedScope.scope;
+    }
+
+    const selected = await previewConfigChanges(changes, parsed.problems.length, parsed.migratedFrom);
+    if (!selected?.length) {
+        return;
+    }
+    try {
+        await applyConfigChanges(globalState, scope === 'user' ? globalState : workspaceState, selected, scope);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Project Label: import failed: ${err}`);
+        return;
+    }
+    vscode.window.showInformationMessage(`Project Label: imported ${selected.length} change(s) to ${SCOPE_LABELS[scope]} settings.`);
+    updateSoundStatusBar();
+}
+
+/** Checklist of incoming changes, all checked. Resolves to those left checked. */
+async function previewConfigChanges(
+    changes: ConfigChange[],
+    skipped: number,
+    migratedFrom: number | undefined
+): Promise<ConfigChange[] | undefined> {
+    type ChangeItem = vscode.QuickPickItem & { change?: ConfigChange };
+    const sections: Array<[ConfigChange['kind'], string]> = [
+        ['setting', 'Settings'], ['signal', 'Sound signals'], ['preset', 'Sound presets'],
+    ];
+    const items: ChangeItem[] = [];
+    for (const [kind, label] of sections) {
+        const ofKind = changes.filter(c => c.kind === kind);
+        if (ofKind.length > 0) {
+            items.push({ label, kind: vscode.QuickPickItemKind.Separator });
+            items.push(...ofKind.map(change => ({ ...describeConfigChange(change), change, picked: true })));
+        }
+    }
+
+    const notes = [`${changes.length} change(s)`];
+    if (migratedFrom !== undefined) {
+        notes.push(`migrated from format version ${migratedFrom}`);
+    }
+    if (skipped > 0) {
+        notes.push(`${skipped} invalid entr${skipped === 1 ? 'y' : 'ies'} skipped (see Output)`);
+        outputChannel.show(true);
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        matchOnDescription: true,
+        title: `Import Project Label Configuration — ${notes.join(', ')}`,
+        placeHolder: 'Uncheck anything you don\'t want to import',
+    });
+    return picked?.flatMap(item => item.change ? [item.change] : []);
+}
+
+function describeConfigChange(change: ConfigChange): vscode.QuickPickItem {
+    switch (change.kind) {
+        case 'setting':
+            return {
+                label: `projectLabel.${change.key}`,
+                description: `${formatConfigValue(change.current)} → ${formatConfigValue(change.incoming)}`,
+            };
+        case 'signal':
+            return {
+                label: `${change.key} (${change.field})`,
+                description: `${change.current ?? 'default'} → ${change.incoming}`,
+            };
+        case 'preset':
+            return {
+                label: change.key,
+                description: change.current ? 'replaces saved preset' : 'new preset',
+                detail: `${change.incoming.sound.length} sound(s), ${change.incoming.announcement.length} announcement(s) silenced`,
+            };
+    }
+}
+
+function formatConfigValue(value: unknown): string {
+    const text = value === undefined ? 'unset' : JSON.stringify(value);
+    return text.length > 40 ? text.substring(0, 39) + '…' : text;
+}
+
+// ── Quiet Time ───────────────────────────────────────────────────
+
+const SILENCE_DURATIONS = [15, 30, 45, 60, 90, 120, 240];
+
+/**
+ * Silence all sounds for `minutes`, or let the user pick a duration.
+ * Sounds are restored automatically when the time is up.
+ */
+async function silenceFor(minutes?: number): Promise<void> {
+    if (!quietHours) {
+        return;
+    }
+    if (minutes === undefined) {
+        const picked = await vscode.window.showQuickPick(
+            [
+                ...SILENCE_DURATIONS.map(m => ({ label: formatRemaining(m * 60_000), minutes: m })),
+                { label: 'Custom...', minutes: undefined },
+            ],
+            { placeHolder: 'Silence all sounds for…' }
+        );
+        if (!picked) {
+            return;
+        }
+        minutes = picked.minutes;
+        if (minutes === undefined) {
+            const input = await vscode.window.showInputBox({
+                prompt: 'Silence all sounds for how many minutes?',
+                validateInput: value => Number(value) > 0 ? undefined : 'Enter a positive number of minutes.',
+            });
+            if (!input) {
+                return;
+            }
+            minutes = Number(input);
+        }
+    }
+    if (!(minutes > 0)) {
+        return;
+    }
+    await quietHours.silenceFor(minutes);
+    // A longer running period (e.g. quiet hours) is extended, never shortened
+    const until = new Date(quietHours.current?.until ?? Date.now() + minutes * 60_000);
+    vscode.window.showInformationMessage(
+        `🔇 Sounds silenced until ${until.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+    );
+}
+
+// ── Auto-Silence ─────────────────────────────────────────────────
+
+/**
+ * Run a built-in toggle VS Code doesn't report the state of (screencast
+ * mode) and flip our record of it, so the matching
+ * `projectLabel.autoSilence` trigger follows. Zen mode has an `inZenMode`
+ * context key instead; see `projectLabel.enterZenMode` / `exitZenMode`.
+ */
+async function toggleTrackedMode(trigger: ManualTrigger, command: string): Promise<void> {
+    await vscode.commands.executeCommand(command);
+    await autoSilence?.setManualTrigger(trigger, !autoSilence.isManualTriggerOn(trigger));
+}
+
 // ── Sound Status Bar ─────────────────────────────────────────────
 
 function updateSoundStatusBar(): void {
@@ -549,31 +1839,53 @@ function updateSoundStatusBar(): void {
         }
     } catch { /* ignore */ }
 
-    if (silent) {
+    // Name the preset the current signal states match, if any
+    const preset = globalState ? findActivePreset(getSoundPresets(globalState))?.preset : undefined;
+
+    const quiet = quietHours?.current;
+
+    if (quiet) {
+        // Countdown, refreshed by QuietHours.onDidChange
+        const until = new Date(quiet.until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        soundStatusBarItem.text = `$(mute) ${formatRemaining(quiet.until - Date.now())}`;
+        soundStatusBarItem.tooltip = quiet.reason === 'schedule'
+            ? `Quiet hours until ${until} — click to end early or switch preset`
+            : `Silenced until ${until} — click to end early or switch preset`;
+        soundStatusBarItem.color = new vscode.ThemeColor('errorForeground');
+    } else if (autoSilence && autoSilence.activeTriggers.length > 0) {
+        const reasons = autoSilence.activeTriggers.map(t => TRIGGER_LABELS[t]).join(', ');
+        soundStatusBarItem.text = `$(mute) ${reasons}`;
+        soundStatusBarItem.tooltip = `Auto-silenced while: ${reasons} — click to switch preset`;
+        soundStatusBarItem.color = undefined;
+    } else if (preset) {
+        soundStatusBarItem.text = `${preset.sound.length > 0 ? '$(mute)' : '$(unmute)'} ${preset.name}`;
+        soundStatusBarItem.tooltip = `Sound preset: ${preset.name} — click to switch`;
+        soundStatusBarItem.color = silent ? new vscode.ThemeColor('errorForeground') : undefined;
+    } else if (silent) {
         soundStatusBarItem.text = '$(mute)';
-        soundStatusBarItem.tooltip = 'All sounds silenced — click to restore';
+        soundStatusBarItem.tooltip = 'All sounds silenced — click to restore or switch preset';
         soundStatusBarItem.color = new vscode.ThemeColor('errorForeground');
     } else {
         soundStatusBarItem.text = '$(unmute)';
-        soundStatusBarItem.tooltip = 'Sounds enabled — click to silence all';
+        soundStatusBarItem.tooltip = 'Sounds enabled — click to silence all or switch preset';
         soundStatusBarItem.color = undefined;
     }
     soundStatusBarItem.show();
 }
 
-export function deactivate(): void {
-    if (statusBarItem) {
-        statusBarItem.dispose();
+export function deactivate(): Promise<void> | undefined {
+    if (statusSegments) {
+        statusSegments.dispose();
     }
     if (soundStatusBarItem) {
         soundStatusBarItem.dispose();
     }
-    // Restore original window title
-    if (originalWindowTitle !== undefined) {
-        vscode.workspace.getConfiguration('window').update(
-            'title',
-            originalWindowTitle || undefined,
-            vscode.ConfigurationTarget.Workspace
-        );
+    // The window title and workbench colors we own stay: removing and
+    // rewriting them on every close and open would churn the workspace
+    // settings file. The Clean Up commands remove them on request.
+    const cleanups: Promise<void>[] = [];
+    if (autoSilence) {
+        cleanups.push(autoSilence.restoreAll());
     }
+    return Promise.all(cleanups).then(() => undefined);
 }
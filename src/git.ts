@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+
+/** `scheme://` at the start of a remote URL; scp-style remotes have none. */
+const REMOTE_SCHEME = /^([a-z+]+):\/\//i;
+
+// ── Minimal typings for the built-in vscode.git extension API (v1) ──
+// Only the members this extension reads; see extensions/git/src/api/git.d.ts
+// in the VS Code repo for the full surface.
+
+interface GitBranch {
+    readonly name?: string;
+    readonly commit?: string;
+    readonly ahead?: number;
+    readonly behind?: number;
+}
+
+interface GitRemote {
+    readonly name: string;
+    readonly fetchUrl?: string;
+    readonly pushUrl?: string;
+}
+
+interface GitRepositoryState {
+    readonly HEAD: GitBranch | undefined;
+    readonly remotes: readonly GitRemote[];
+    readonly workingTreeChanges: readonly unknown[];
+    readonly indexChanges: readonly unknown[];
+    readonly mergeChanges: readonly unknown[];
+    readonly onDidChange: vscode.Event<void>;
+}
+
+interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: GitRepositoryState;
+}
+
+interface GitAPI {
+    readonly repositories: GitRepository[];
+    readonly onDidOpenRepository: vscode.Event<GitRepository>;
+    readonly onDidCloseRepository: vscode.Event<GitRepository>;
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitExtension {
+    readonly enabled: boolean;
+    readonly onDidChangeEnablement: vscode.Event<boolean>;
+    getAPI(version: 1): GitAPI;
+}
+
+/** Snapshot of the repository state shown in the label and tooltip. */
+export interface GitInfo {
+    branch: string;
+    dirty: boolean;
+    ahead: number;
+    behind: number;
+    /** Fetch URL of `origin` (or the first remote), if any. */
+    remoteUrl?: string;
+}
+
+/**
+ * Tracks the built-in Git extension and fires `onDidChange` whenever the
+ * branch, dirty state or ahead/behind counts of any open repository change.
+ *
+ * Every method degrades to "no git info" when the Git extension is missing,
+ * disabled via `git.enabled`, or the folder is not a repository.
+ */
+export class GitWatcher implements vscode.Disposable {
+    private _api: GitAPI | undefined;
+    private _disposables: vscode.Disposable[] = [];
+    private _apiListeners: vscode.Disposable[] = [];
+    private _repoListeners = new Map<GitRepository, vscode.Disposable>();
+    private _signatures = new Map<GitRepository, string>();
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        this._disposables.push(this._onDidChange);
+        this._init();
+    }
+
+    /** Git state for the repository containing `uri`, if any. */
+    getInfo(uri: vscode.Uri | undefined): GitInfo | undefined {
+        if (!this._api || !uri) {
+            return undefined;
+        }
+        const repo = this._api.getRepository(uri);
+        return repo ? toGitInfo(repo) : undefined;
+    }
+
+    private async _init(): Promise<void> {
+        const ext = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!ext) {
+            return;
+        }
+        try {
+            const gitExt = ext.isActive ? ext.exports : await ext.activate();
+            this._disposables.push(
+                gitExt.onDidChangeEnablement(enabled => this._setEnabled(gitExt, enabled))
+            );
+            this._setEnabled(gitExt, gitExt.enabled);
+        } catch {
+            // Git extension failed to activate — behave as if git is disabled
+        }
+    }
+
+    private _setEnabled(gitExt: GitExtension, enabled: boolean): void {
+        this._clearRepositories();
+        this._api = undefined;
+
+        if (enabled) {
+            const api = gitExt.getAPI(1);
+            this._api = api;
+            api.repositories.forEach(repo => this._watchRepository(repo));
+            this._apiListeners.push(
+                api.onDidOpenRepository(repo => {
+                    this._watchRepository(repo);
+                    this._onDidChange.fire();
+                }),
+                api.onDidCloseRepository(repo => {
+                    this._repoListeners.get(repo)?.dispose();
+                    this._repoListeners.delete(repo);
+                    this._signatures.delete(repo);
+                    this._onDidChange.fire();
+                })
+            );
+        }
+        this._onDidChange.fire();
+    }
+
+    private _watchRepository(repo: GitRepository): void {
+        if (this._repoListeners.has(repo)) {
+            return;
+        }
+        this._signatures.set(repo, signature(toGitInfo(repo)));
+        // state.onDidChange fires on every status refresh; only forward it
+        // when something we display actually changed.
+        this._repoListeners.set(repo, repo.state.onDidChange(() => {
+            const sig = signature(toGitInfo(repo));
+            if (sig !== this._signatures.get(repo)) {
+                this._signatures.set(repo, sig);
+                this._onDidChange.fire();
+            }
+        }));
+    }
+
+    private _clearRepositories(): void {
+        this._apiListeners.forEach(d => d.dispose());
+        this._apiListeners = [];
+        this._repoListeners.forEach(d => d.dispose());
+        this._repoListeners.clear();
+        this._signatures.clear();
+    }
+
+    dispose(): void {
+        this._clearRepositories();
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+}
+
+/** Compact status text, e.g. `main* ↑2 ↓1`. */
+export function formatGitStatus(info: GitInfo): string {
+    let text = info.branch;
+    if (info.dirty) { text += '*'; }
+    if (info.ahead) { text += ` ↑${info.ahead}`; }
+    if (info.behind) { text += ` ↓${info.behind}`; }
+    return text;
+}
+
+function toGitInfo(repo: GitRepository): GitInfo {
+    const state = repo.state;
+    const head = state.HEAD;
+    // Detached HEAD has no branch name — show the short commit instead
+    const branch = head?.name ?? head?.commit?.substring(0, 8) ?? '';
+    const remote = state.remotes.find(r => r.name === 'origin') ?? state.remotes[0];
+    return {
+        branch,
+        dirty: state.workingTreeChanges.length > 0 ||
+            state.indexChanges.length > 0 ||
+            state.mergeChanges.length > 0,
+        ahead: head?.ahead ?? 0,
+        behind: head?.behind ?? 0,
+        remoteUrl: remote?.fetchUrl ?? remote?.pushUrl,
+    };
+}
+
+/**
+ * Normalize a remote URL to `host/owner/repo` so the SSH and HTTPS forms
+ * of the same repository compare equal, e.g.
+ * `git@github.com:org/repo.git` → `github.com/org/repo`. A `host:NNN`
+ * port only exists after a `scheme://`; in scp-style `host:path` the
+ * colon always separates the path, even one starting with a digit.
+ */
+export function normalizeRemoteUrl(url: string): string {
+    const trimmed = url.trim();
+    let rest = trimmed
+        .replace(/^[a-z+]+:\/\//i, '')       // scheme
+        .replace(/^[^@/]+@/, '');             // user@
+    if (!REMOTE_SCHEME.test(trimmed)) {
+        rest = rest.replace(/^([^/:]+):/, '$1/');  // scp-style host:path
+    }
+    return rest
+        .replace(/\.git$/, '')
+        .replace(/\/+$/, '');
+}
+
+/**
+ * Browser URL of a remote. http(s) remotes keep their scheme and port;
+ * ssh, git and scp-style remotes map to https without the port, which
+ * belongs to that server rather than the web one. Assumes the host serves
+ * HTTPS, as the common forges do. For example:
+ *
+ * - `git@github.com:org/repo.git` → `https://github.com/org/repo`
+ * - `git@github.com:1password/x.git` → `https://github.com/1password/x`
+ * - `ssh://git@host:2222/org/repo.git` → `https://host/org/repo`
+ * - `http://host:8080/org/repo.git` → `http://host:8080/org/repo`
+ */
+export function remoteWebUrl(url: string): string {
+    const scheme = REMOTE_SCHEME.exec(url.trim())?.[1].toLowerCase();
+    const normalized = normalizeRemoteUrl(url);
+    if (scheme === 'http' || scheme === 'https') {
+        return `${scheme}://${normalized}`;
+    }
+    return `https://${scheme ? normalized.replace(/^([^/:]+):\d+(?=\/|$)/, '$1') : normalized}`;
+}
+
+function signature(info: GitInfo): string {
+    return `${info.branch}|${info.dirty}|${info.ahead}|${info.behind}|${info.remoteUrl ?? ''}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Label template resolver for `projectLabel.labelTemplate`.
+ *
+ * Syntax:
+ *   ${name}          — value of a token (empty string if unset)
+ *   ${env:VAR}       — environment variable of the extension host
+ *   ${name?text}     — render `text` only when `name` is non-empty;
+ *                      `text` may itself contain tokens, e.g.
+ *                      `${profile? [${profile}]}`
+ *
+ * Unknown tokens and unterminated `${` are reported in `errors` and left
+ * in the output verbatim so the mistake is visible in the label.
+ */
+
+/** Token values keyed by token name (without the `${}` wrapper). */
+export type TemplateValues = Record<string, string>;
+
+export interface TemplateResult {
+    text: string;
+    errors: string[];
+}
+
+const TOKEN_NAME = /^(env:[A-Za-z_][A-Za-z0-9_]*|[A-Za-z][A-Za-z0-9]*)/;
+
+export function resolveLabelTemplate(template: string, values: TemplateValues): TemplateResult {
+    const errors: string[] = [];
+    const text = resolve(template, values, errors);
+    return { text, errors };
+}
+
+function resolve(template: string, values: TemplateValues, errors: string[]): string {
+    let out = '';
+    let i = 0;
+
+    while (i < template.length) {
+        const start = template.indexOf('${', i);
+        if (start === -1) {
+            out += template.substring(i);
+            break;
+        }
+        out += template.substring(i, start);
+
+        const end = findClosingBrace(template, start + 2);
+        if (end === -1) {
+            errors.push(`Unterminated "\${" at position ${start}`);
+            out += template.substring(start);
+            break;
+        }
+
+        const raw = template.substring(start, end + 1);
+        out += resolveExpression(template.substring(start + 2, end), raw, values, errors);
+        i = end + 1;
+    }
+
+    return out;
+}
+
+/** Find the `}` matching an opening `${`, honouring nested `${…}` pairs. */
+function findClosingBrace(template: string, from: number): number {
+    let depth = 1;
+    for (let i = from; i < template.length; i++) {
+        if (template[i] === '$' && template[i + 1] === '{') {
+            depth++;
+            i++;
+        } else if (template[i] === '}') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+function resolveExpression(
+    expr: string,
+    raw: string,
+    values: TemplateValues,
+    errors: string[]
+): string {
+    const match = expr.match(TOKEN_NAME);
+    if (!match) {
+        errors.push(`Invalid token "${raw}"`);
+        return raw;
+    }
+
+    const name = match[1];
+    const rest = expr.substring(name.length);
+    const value = lookup(name, values);
+
+    if (value === undefined) {
+        errors.push(`Unknown token "\${${name}}"`);
+        return raw;
+    }
+
+    if (rest === '') {
+        return value;
+    }
+    if (rest.startsWith('?')) {
+        return value ? resolve(rest.substring(1), values, errors) : '';
+    }
+
+    errors.push(`Unexpected "${rest}" in token "${raw}"`);
+    return raw;
+}
+
+function lookup(name: string, values: TemplateValues): string | undefined {
+    if (name.startsWith('env:')) {
+        return process.env[name.substring(4)] ?? '';
+    }
+    return Object.prototype.hasOwnProperty.call(values, name) ? values[name] : undefined;
+}
@@ -0,0 +1,272 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+/** Result of `detectProfile()`, including how the name was found. */
+export interface ProfileDetection {
+    name: string;
+    /** Which step of the fallback chain produced `name`. */
+    source: string;
+    /** One line per step tried, shown by the Refresh command. */
+    trace: string[];
+    /** `User` directories that were searched for profile metadata. */
+    userDirs: string[];
+}
+
+/**
+ * Product folder names used by VS Code and its forks under the platform
+ * config directory (~/.config, ~/Library/Application Support, %APPDATA%).
+ */
+const PRODUCT_FOLDERS = [
+    'Code',
+    'Code - Insiders',
+    'Code - OSS',
+    'VSCodium',
+    'VSCodium - Insiders',
+    'Cursor',
+    'Windsurf',
+];
+
+/**
+ * Detect the active VS Code profile name.
+ *
+ * Fallback chain (first hit wins):
+ * 1. globalStorageUri contains the profile ID for non-default profiles,
+ *    e.g. <userDataDir>/User/profiles/<profileId>/globalStorage/<extensionId>.
+ *    No profile segment means the Default profile (step 4 still applies).
+ * 2. The ID is looked up in `profiles.json` and in the `userDataProfiles`
+ *    entry of `globalStorage/storage.json`, searching these User dirs:
+ *    a. the one derived from globalStorageUri (covers --user-data-dir,
+ *       portable mode and every product flavour),
+ *    b. $VSCODE_PORTABLE/user-data/User,
+ *    c. <config dir>/<product>/User for Code, Insiders, VSCodium, Cursor…
+ * 3. A profile ID that can't be resolved is shown as its first 8 chars.
+ * 4. VSCODE_PROFILE env var (set by some VS Code builds).
+ * 5. Falls back to "Default".
+ */
+export function detectProfile(globalStoragePath: string, appName?: string): ProfileDetection {
+    const trace: string[] = [];
+    const userDirs = getCandidateUserDirs(globalStoragePath, appName);
+
+    // --- Step 1: Parse profile ID from globalStorageUri ---
+    const profileIdMatch = globalStoragePath.match(
+        /[/\\]profiles[/\\]([^/\\]+)[/\\]globalStorage/i
+    );
+
+    if (profileIdMatch) {
+        const profileId = profileIdMatch[1];
+        trace.push(`1. globalStorageUri → profile ID "${profileId}"`);
+
+        // --- Step 2: Resolve the ID to a name ---
+        for (const userDir of userDirs) {
+            const found = lookupProfileName(userDir, profileId);
+            if (found) {
+                trace.push(`2. Resolved in ${found.file}`);
+                return { name: found.name, source: found.file, trace, userDirs };
+            }
+            trace.push(`2. Not found in ${userDir}`);
+        }
+
+        // --- Step 3: Show the ID ---
+        trace.push('3. Profile name unresolved — showing the ID');
+        return { name: profileId.substring(0, 8), source: 'profile ID', trace, userDirs };
+    }
+    trace.push('1. globalStorageUri has no profile segment (Default profile)');
+
+    // --- Step 4: Environment variable ---
+    const envProfile = process.env['VSCODE_PROFILE'];
+    if (envProfile) {
+        trace.push('4. VSCODE_PROFILE environment variable');
+        return { name: envProfile, source: 'VSCODE_PROFILE', trace, userDirs };
+    }
+    trace.push('4. VSCODE_PROFILE not set');
+
+    trace.push('5. Default');
+    return { name: 'Default', source: 'default', trace, userDirs };
+}
+
+/**
+ * Keeps the detected profile current for the whole session: watches the
+ * profile metadata files (profiles.json, globalStorage/storage.json) and
+ * re-runs `detectProfile()` when they change, so renaming a profile in the
+ * Profiles editor updates the label without a reload.
+ *
+ * `onDidChangeProfile` fires only when the resolved name actually changes.
+ */
+export class ProfileWatcher implements vscode.Disposable {
+    private _current: ProfileDetection;
+    private _watchers: vscode.Disposable[] = [];
+    /** The files `_watchers` watch, so a refresh that changes none keeps them. */
+    private _watchedFiles = '';
+    private _debounce: ReturnType<typeof setTimeout> | undefined;
+
+    private _onDidChangeProfile = new vscode.EventEmitter<ProfileDetection>();
+    readonly onDidChangeProfile = this._onDidChangeProfile.event;
+
+    constructor(
+        private readonly _globalStoragePath: string,
+        private readonly _appName?: string
+    ) {
+        this._current = detectProfile(_globalStoragePath, _appName);
+        this._watch();
+    }
+
+    get current(): ProfileDetection {
+        return this._current;
+    }
+
+    /** Re-run detection now; fires `onDidChangeProfile` if the name changed. */
+    refresh(): ProfileDetection {
+        const previous = this._current;
+        this._current = detectProfile(this._globalStoragePath, this._appName);
+        this._watch();
+        if (this._current.name !== previous.name) {
+            this._onDidChangeProfile.fire(this._current);
+        }
+        return this._current;
+    }
+
+    private _watch(): void {
+        // The file that resolved the name, plus the metadata files of the
+        // user-data dir this window actually runs from
+        const files = new Set<string>();
+        if (path.isAbsolute(this._current.source)) {
+            files.add(this._current.source);
+        }
+        const ownUserDir = this._current.userDirs[0];
+        if (ownUserDir) {
+            files.add(path.join(ownUserDir, 'profiles.json'));
+            files.add(path.join(ownUserDir, 'globalStorage', 'storage.json'));
+        }
+
+        const watchedFiles = [...files].sort().join('\n');
+        if (watchedFiles === this._watchedFiles) {
+            return;
+        }
+        this._disposeWatchers();
+        this._watchedFiles = watchedFiles;
+
+        for (const file of files) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(path.dirname(file)), path.basename(file))
+            );
+            this._watchers.push(
+                watcher,
+                watcher.onDidChange(() => this._scheduleRefresh()),
+                watcher.onDidCreate(() => this._scheduleRefresh()),
+                watcher.onDidDelete(() => this._scheduleRefresh())
+            );
+        }
+    }
+
+    /** storage.json is rewritten often — coalesce bursts of changes. */
+    private _scheduleRefresh(): void {
+        if (this._debounce) {
+            clearTimeout(this._debounce);
+        }
+        this._debounce = setTimeout(() => {
+            this._debounce = undefined;
+            this.refresh();
+        }, 500);
+    }
+
+    private _disposeWatchers(): void {
+        this._watchers.forEach(d => d.dispose());
+        this._watchers = [];
+        this._watchedFiles = '';
+    }
+
+    dispose(): void {
+        if (this._debounce) {
+            clearTimeout(this._debounce);
+        }
+        this._disposeWatchers();
+        this._onDidChangeProfile.dispose();
+    }
+}
+
+/**
+ * The `User` directories that may hold profile metadata, most specific
+ * first and without duplicates.
+ */
+function getCandidateUserDirs(globalStoragePath: string, appName?: string): string[] {
+    const dirs: string[] = [];
+
+    // <userDataDir>/User/[profiles/<id>/]globalStorage/<extensionId>
+    const derived = globalStoragePath.match(
+        /^(.*[/\\]User)[/\\](?:profiles[/\\][^/\\]+[/\\])?globalStorage(?:[/\\]|$)/i
+    );
+    if (derived) {
+        dirs.push(derived[1]);
+    }
+
+    const portable = process.env['VSCODE_PORTABLE'];
+    if (portable) {
+        dirs.push(path.join(portable, 'user-data', 'User'));
+    }
+
+    // Try the product matching the running app first, e.g. "Visual Studio
+    // Code - Insiders" → "Code - Insiders"
+    const configDir = getPlatformConfigDir();
+    const products = [...PRODUCT_FOLDERS].sort((a, b) =>
+        Number(matchesApp(b, appName)) - Number(matchesApp(a, appName)));
+    for (const product of products) {
+        dirs.push(path.join(configDir, product, 'User'));
+    }
+
+    return dirs.filter((dir, i) => dirs.indexOf(dir) === i);
+}
+
+function matchesApp(product: string, appName?: string): boolean {
+    return !!appName && appName.toLowerCase().endsWith(product.toLowerCase());
+}
+
+function lookupProfileName(userDir: string, profileId: string): { name: string; file: string } | undefined {
+    // Older builds: User/profiles.json
+    const profileListPath = path.join(userDir, 'profiles.json');
+    const fromList = findInProfiles(readJson(profileListPath), profileId);
+    if (fromList) {
+        return { name: fromList, file: profileListPath };
+    }
+
+    // Current builds: User/globalStorage/storage.json → userDataProfiles
+    const storagePath = path.join(userDir, 'globalStorage', 'storage.json');
+    const storage = readJson(storagePath) as { userDataProfiles?: unknown } | undefined;
+    const fromStorage = findInProfiles(storage?.userDataProfiles, profileId);
+    if (fromStorage) {
+        return { name: fromStorage, file: storagePath };
+    }
+    return undefined;
+}
+
+function findInProfiles(data: unknown, profileId: string): string | undefined {
+    type ProfileEntry = { name?: string; location?: string };
+    const profiles: ProfileEntry[] =
+        Array.isArray(data) ? data : ((data as { profiles?: ProfileEntry[] } | undefined)?.profiles ?? []);
+    return profiles.find(p => p.location === profileId && p.name)?.name;
+}
+
+function readJson(file: string): unknown {
+    try {
+        if (fs.existsSync(file)) {
+            return JSON.parse(fs.readFileSync(file, 'utf-8'));
+        }
+    } catch {
+        // Unreadable or invalid — treat as missing
+    }
+    return undefined;
+}
+
+function getPlatformConfigDir(): string {
+    const homeDir = os.homedir();
+
+    switch (process.platform) {
+        case 'win32':
+            return process.env['APPDATA'] || path.join(homeDir, 'AppData', 'Roaming');
+        case 'darwin':
+            return path.join(homeDir, 'Library', 'Application Support');
+        default:
+            return process.env['XDG_CONFIG_HOME'] || path.join(homeDir, '.config');
+    }
+}
@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import { getActiveWorkspaceFolder } from './workspaceFolder';
+import { getScopedConfiguration } from './configScope';
+
+export const PROJECT_CONFIG_FILE = '.projectlabel.json';
+
+/** Contents of a repository-committed `.projectlabel.json`. */
+export interface ProjectFileConfig {
+    /** Fixed label text. Maps to `customLabel`. */
+    label?: string;
+    color?: string;
+    icon?: string;
+    titleTemplate?: string;
+}
+
+/** `.projectlabel.json` key → the `projectLabel.*` setting it overrides. */
+const FILE_KEY_TO_SETTING: Record<keyof ProjectFileConfig, string> = {
+    label: 'customLabel',
+    color: 'color',
+    icon: 'icon',
+    titleTemplate: 'titleTemplate',
+};
+
+/**
+ * Loads `.projectlabel.json` from the root of every workspace folder,
+ * watches it for changes and reports parse/validation problems in the
+ * Problems panel. Values from the file are merged over the user's
+ * `projectLabel.*` settings by `getSetting()`.
+ */
+export class ProjectConfigFile implements vscode.Disposable {
+    private _configs = new Map<string, ProjectFileConfig>();
+    private _diagnostics = vscode.languages.createDiagnosticCollection('projectLabel');
+    private _disposables: vscode.Disposable[] = [];
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_CONFIG_FILE}`);
+        this._disposables.push(
+            this._diagnostics,
+            this._onDidChange,
+            watcher,
+            watcher.onDidCreate(uri => this._reloadFor(uri)),
+            watcher.onDidChange(uri => this._reloadFor(uri)),
+            watcher.onDidDelete(uri => this._reloadFor(uri)),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload())
+        );
+        this.reload();
+    }
+
+    /** Overrides for the labelled folder, if it has a valid config file. */
+    get current(): ProjectFileConfig | undefined {
+        const folder = getActiveWorkspaceFolder();
+        return folder ? this._configs.get(folder.uri.toString()) : undefined;
+    }
+
+    /**
+     * Read a `projectLabel.*` setting with `.projectlabel.json` values
+     * merged on top.
+     */
+    getSetting<T>(key: string, defaultValue: T): T {
+        const overrides = this.current;
+        const fileKey = (Object.keys(FILE_KEY_TO_SETTING) as (keyof ProjectFileConfig)[])
+            .find(k => FILE_KEY_TO_SETTING[k] === key);
+        if (overrides && fileKey && overrides[fileKey] !== undefined) {
+            return overrides[fileKey] as unknown as T;
+        }
+        return getScopedConfiguration().get<T>(key, defaultValue);
+    }
+
+    async reload(): Promise<void> {
+        this._configs.clear();
+        this._diagnostics.clear();
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        await Promise.all(folders.map(folder => this._load(folder)));
+        this._onDidChange.fire();
+    }
+
+    private async _reloadFor(uri: vscode.Uri): Promise<void> {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        // Only the file at the folder root counts — ignore nested copies
+        if (!folder || vscode.Uri.joinPath(folder.uri, PROJECT_CONFIG_FILE).toString() !== uri.toString()) {
+            return;
+        }
+        this._configs.delete(folder.uri.toString());
+        this._diagnostics.delete(uri);
+        await this._load(folder);
+        this._onDidChange.fire();
+    }
+
+    private async _load(folder: vscode.WorkspaceFolder): Promise<void> {
+        const uri = vscode.Uri.joinPath(folder.uri, PROJECT_CONFIG_FILE);
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            return; // No config file in this folder
+        }
+
+        const problems: vscode.Diagnostic[] = [];
+        const config = parseProjectConfig(text, problems);
+        this._diagnostics.set(uri, problems);
+        if (config) {
+            this._configs.set(folder.uri.toString(), config);
+        }
+    }
+
+    dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+}
+
+/**
+ * Parse and validate the file. Returns the usable subset of values, or
+ * undefined when the file is not a JSON object. Problems are appended to
+ * `problems` as diagnostics.
+ */
+function parseProjectConfig(text: string, problems: vscode.Diagnostic[]): ProjectFileConfig | undefined {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const pos = /position (\d+)/.exec(message);
+        problems.push(new vscode.Diagnostic(
+            rangeAt(text, pos ? Number(pos[1]) : 0),
+            `Invalid ${PROJECT_CONFIG_FILE}: ${message}`,
+            vscode.DiagnosticSeverity.Error
+        ));
+        return undefined;
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        problems.push(new vscode.Diagnostic(
+            rangeAt(text, 0),
+            `${PROJECT_CONFIG_FILE} must contain a JSON object.`,
+            vscode.DiagnosticSeverity.Error
+        ));
+        return undefined;
+    }
+
+    const config: ProjectFileConfig = {};
+    for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+        if (key === '$schema') {
+            continue;
+        }
+        const range = rangeAt(text, Math.max(0, text.indexOf(`"${key}"`)));
+        if (!(key in FILE_KEY_TO_SETTING)) {
+            problems.push(new vscode.Diagnostic(
+                range,
+                `Unknown property "${key}". Expected one of: ${Object.keys(FILE_KEY_TO_SETTING).join(', ')}.`,
+                vscode.DiagnosticSeverity.Warning
+            ));
+            continue;
+        }
+        if (typeof value !== 'string') {
+            problems.push(new vscode.Diagnostic(
+                range,
+                `Property "${key}" must be a string.`,
+                vscode.DiagnosticSeverity.Error
+            ));
+            continue;
+        }
+        config[key as keyof ProjectFileConfig] = value;
+    }
+    return config;
+}
+
+function rangeAt(text: string, offset: number): vscode.Range {
+    const before = text.substring(0, offset);
+    const line = before.split('\n').length - 1;
+    const character = offset - (before.lastIndexOf('\n') + 1);
+    return new vscode.Range(line, character, line, character + 1);
+}
@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import { restoreSignals, silenceSignals } from './soundSnapshot';
+import { getAllSignalKeys } from './signalRegistry';
+
+/** globalState key holding the running quiet period, so it survives reloads. */
+const QUIET_PERIOD_KEY = 'projectLabel.quietPeriod';
+/** globalState key: end of a scheduled window the user ended early. */
+const SKIP_UNTIL_KEY = 'projectLabel.quietHoursSkipUntil';
+
+/** How often expiry and the schedule are checked (also the countdown refresh). */
+const TICK_MS = 15_000;
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** One entry of the `projectLabel.quietHours` setting. */
+export interface QuietHoursWindow {
+    /** Three-letter day names, e.g. ["mon", "fri"]. All days when omitted. */
+    days?: string[];
+    /** Start time, "HH:MM" (24h, local time). */
+    from: string;
+    /** End time, "HH:MM". Earlier than `from` means the window ends the next day. */
+    to: string;
+}
+
+export interface QuietPeriod {
+    /** Epoch ms at which sounds are restored. */
+    until: number;
+    reason: 'timer' | 'schedule';
+    /** Signals this period silenced — already-silent ones are left alone at the end. */
+    keys: string[];
+}
+
+/**
+ * Silences all sounds for a while — for a fixed duration ("Silence for…")
+ * or during the recurring `projectLabel.quietHours` windows — and restores
+ * them when the period ends.
+ *
+ * The period is kept in globalState and checked on a timer, so expiry is
+ * honored after a window reload: a period that ended while VS Code was
+ * closed is restored on the next activation.
+ */
+export class QuietHours implements vscode.Disposable {
+    private _timer: ReturnType<typeof setInterval>;
+    // Serialize ticks and commands so a slow restore can't interleave
+    private _pending: Promise<void> = Promise.resolve();
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    /** Fires on start and end, and on every tick while active (for countdowns). */
+    readonly onDidChange = this._onDidChange.event;
+
+    private _onDidExpire = new vscode.EventEmitter<QuietPeriod>();
+    /** Fires when a period ends by itself (not when ended by the user). */
+    readonly onDidExpire = this._onDidExpire.event;
+
+    constructor(private readonly _state: vscode.Memento) {
+        this._timer = setInterval(() => this._queue(() => this._tick()), TICK_MS);
+        this._queue(() => this._tick());
+    }
+
+    get current(): QuietPeriod | undefined {
+        return this._state.get<QuietPeriod>(QUIET_PERIOD_KEY);
+    }
+
+    /** Silence all sounds for `minutes`, extending any running period. */
+    silenceFor(minutes: number): Promise<void> {
+        return this._queue(() => this._start(Date.now() + minutes * 60_000, 'timer'));
+    }
+
+    /** End the running period now and restore the sounds it silenced. */
+    end(): Promise<void> {
+        return this._queue(async () => {
+            const period = this.current;
+            if (period) {
+                await this._finish(period);
+                await this._skipCurrentWindow();
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    /**
+     * Drop the running period without restoring anything — for when the
+     * user has restored all sounds some other way.
+     */
+    forget(): Promise<void> {
+        return this._queue(async () => {
+            if (this.current) {
+                await this._state.update(QUIET_PERIOD_KEY, undefined);
+                await this._skipCurrentWindow();
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    /** Re-check the schedule now, e.g. after `projectLabel.quietHours` changed. */
+    refresh(): Promise<void> {
+        return this._queue(() => this._tick());
+    }
+
+    private _queue(task: () => Promise<void>): Promise<void> {
+        this._pending = this._pending
+            .then(task)
+            .then(undefined, () => { /* e.g. settings not writable — retry next tick */ });
+        return this._pending;
+    }
+
+    private async _tick(): Promise<void> {
+        const now = Date.now();
+        const period = this.current;
+
+        // A scheduled period also ends early if its window was edited away
+        if (period && (period.until <= now ||
+            (period.reason === 'schedule' && getScheduledWindowEnd(new Date(now)) === undefined))) {
+            await this._finish(period);
+            this._onDidExpire.fire(period);
+        } else if (!period) {
+            const windowEnd = getScheduledWindowEnd(new Date(now));
+            if (windowEnd !== undefined && this._state.get<number>(SKIP_UNTIL_KEY, 0) < windowEnd) {
+                await this._start(windowEnd, 'schedule');
+                return; // _start fires onDidChange
+            }
+        }
+        this._onDidChange.fire();
+    }
+
+    private async _start(until: number, reason: QuietPeriod['reason']): Promise<void> {
+        const existing = this.current;
+        if (existing) {
+            if (until > existing.until) {
+                await this._state.update(QUIET_PERIOD_KEY, { ...existing, until, reason });
+            }
+            this._onDidChange.fire();
+            return;
+        }
+
+        const signals = vscode.workspace.getConfiguration('accessibility.signals');
+        const keys = getAllSignalKeys().filter(k => signals.get<{ sound?: string }>(k)?.sound !== 'off');
+        // Persist before writing so a reload mid-way still restores
+        await this._state.update(QUIET_PERIOD_KEY, { until, reason, keys } satisfies QuietPeriod);
+        await silenceSignals(this._state, keys);
+        this._onDidChange.fire();
+    }
+
+    private async _finish(period: QuietPeriod): Promise<void> {
+        await this._state.update(QUIET_PERIOD_KEY, undefined);
+        await restoreSignals(this._state, period.keys);
+    }
+
+    /** Don't re-silence for the rest of a scheduled window the user ended. */
+    private async _skipCurrentWindow(): Promise<void> {
+        const windowEnd = getScheduledWindowEnd(new Date());
+        if (windowEnd !== undefined) {
+            await this._state.update(SKIP_UNTIL_KEY, windowEnd);
+        }
+    }
+
+    dispose(): void {
+        clearInterval(this._timer);
+        this._onDidChange.dispose();
+        this._onDidExpire.dispose();
+    }
+}
+
+/**
+ * End (epoch ms) of the `projectLabel.quietHours` window containing `now`,
+ * or undefined outside all windows. Overlapping windows are merged by
+ * taking the latest end. Malformed entries are ignored.
+ */
+export function getScheduledWindowEnd(now: Date): number | undefined {
+    const windows = vscode.workspace
+        .getConfiguration('projectLabel')
+        .get<QuietHoursWindow[]>('quietHours', []);
+    let end: number | undefined;
+
+    for (const w of Array.isArray(windows) ? windows : []) {
+        const from = parseTime(w?.from);
+        const to = parseTime(w?.to);
+        if (from === undefined || to === undefined || from === to) {
+            continue;
+        }
+        const days = Array.isArray(w.days) && w.days.length > 0
+            ? w.days.map(d => String(d).toLowerCase().substring(0, 3))
+            : DAYS;
+
+        // A window crossing midnight may have started yesterday
+        for (const dayOffset of [0, -1]) {
+            const date = now.getDate() + dayOffset;
+            // Date() normalizes overflowing days/minutes and stays right across DST changes
+            const start = new Date(now.getFullYear(), now.getMonth(), date, 0, from);
+            if (!days.includes(DAYS[start.getDay()])) {
+                continue;
+            }
+            const startMs = start.getTime();
+            const endMs = new Date(now.getFullYear(), now.getMonth(), date, 0, to > from ? to : to + 24 * 60)
+                .getTime();
+            if (startMs <= now.getTime() && now.getTime() < endMs) {
+                end = Math.max(end ?? 0, endMs);
+            }
+        }
+    }
+    return end;
+}
+
+/** "1h 05m", "45m" — rounded up to the minute. */
+export function formatRemaining(ms: number): string {
+    const minutes = Math.max(1, Math.ceil(ms / 60_000));
+    if (minutes < 60) {
+        return `${minutes}m`;
+    }
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+/** "HH:MM" → minutes after midnight. */
+function parseTime(value: unknown): number | undefined {
+    const match = typeof value === 'string' ? value.trim().match(/^(\d{1,2}):(\d{2})$/) : null;
+    if (!match) {
+        return undefined;
+    }
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * globalState key holding the project history. globalState is shared by
+ * every window of the profile, so each window's label outlives it.
+ */
+const RECENT_PROJECTS_KEY = 'projectLabel.recentProjects';
+
+/** Oldest entries beyond this are dropped. */
+const MAX_RECENT_PROJECTS = 30;
+
+/** One window's project as it was last labelled. */
+export interface RecentProject {
+    /** Folder or `.code-workspace` URI, as a string. */
+    uri: string;
+    isWorkspaceFile: boolean;
+    /** Label text without the icon. */
+    label: string;
+    /** Codicon such as `$(bracket-dot)`, or empty. */
+    icon: string;
+    /** Resolved color: hex, theme color token, or empty. */
+    color: string;
+    profile?: string;
+    /** Epoch ms of the last time a window opened this project. */
+    lastSeen: number;
+}
+
+/**
+ * The folder or workspace file this window has open, or undefined for an
+ * empty window or an untitled workspace.
+ */
+export function getWindowProjectUri(): { uri: vscode.Uri; isWorkspaceFile: boolean } | undefined {
+    const workspaceFile = vscode.workspace.workspaceFile;
+    if (workspaceFile) {
+        return workspaceFile.scheme === 'untitled' ? undefined : { uri: workspaceFile, isWorkspaceFile: true };
+    }
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? { uri: folder.uri, isWorkspaceFile: false } : undefined;
+}
+
+/** Recent projects, most recently opened first. */
+export function getRecentProjects(state: vscode.Memento): RecentProject[] {
+    const saved = state.get<unknown>(RECENT_PROJECTS_KEY, []);
+    return Array.isArray(saved) ? saved.filter(isRecentProject) : [];
+}
+
+/**
+ * Record `project` in the history. With `moveToTop` (when a window opens)
+ * it becomes the most recent entry; otherwise an existing entry is updated
+ * in place, and nothing is written when it is unchanged, so calling this
+ * on every label update is cheap. Returns whether the history changed.
+ */
+export async function recordRecentProject(
+    state: vscode.Memento,
+    project: Omit<RecentProject, 'lastSeen'>,
+    moveToTop: boolean
+): Promise<boolean> {
+    const recent = getRecentProjects(state);
+    const index = recent.findIndex(p => p.uri === project.uri);
+    if (index >= 0 && !moveToTop) {
+        const existing = recent[index];
+        if (existing.label === project.label && existing.icon === project.icon &&
+            existing.color === project.color && existing.profile === project.profile &&
+            existing.isWorkspaceFile === project.isWorkspaceFile) {
+            return false;
+        }
+        recent[index] = { ...project, lastSeen: existing.lastSeen };
+        await state.update(RECENT_PROJECTS_KEY, recent);
+        return true;
+    }
+    const entry: RecentProject = { ...project, lastSeen: Date.now() };
+    await state.update(
+        RECENT_PROJECTS_KEY,
+        [entry, ...recent.filter(p => p.uri !== project.uri)].slice(0, MAX_RECENT_PROJECTS)
+    );
+    return true;
+}
+
+/** Remove a project from the history. */
+export async function removeRecentProject(state: vscode.Memento, uri: string): Promise<void> {
+    await state.update(RECENT_PROJECTS_KEY, getRecentProjects(state).filter(p => p.uri !== uri));
+}
+
+/** Path shown next to a project's label, with `~` for the home directory. */
+export function describeRecentProject(project: RecentProject): string {
+    const uri = vscode.Uri.parse(project.uri);
+    if (uri.scheme !== 'file') {
+        return `${uri.authority ? `[${uri.authority}] ` : ''}${uri.path}`;
+    }
+    const home = process.env.HOME ?? process.env.USERPROFILE;
+    const fsPath = uri.fsPath;
+    return home && fsPath.startsWith(home + path.sep) ? `~${fsPath.substring(home.length)}` : fsPath;
+}
+
+/**
+ * Icon showing a project's color: a colored circle for theme tokens, a
+ * generated swatch for hex colors (ThemeIcon only takes theme colors), and
+ * the folder / workspace icon when the project has no color.
+ */
+export async function getRecentProjectIcon(
+    project: RecentProject,
+    storageUri: vscode.Uri
+): Promise<vscode.ThemeIcon | vscode.Uri> {
+    const color = project.color;
+    if (/^#[0-9a-f]{3,8}$/i.test(color)) {
+        const swatch = vscode.Uri.joinPath(storageUri, 'swatches', `${color.substring(1).toLowerCase()}.svg`);
+        try {
+            await vscode.workspace.fs.stat(swatch);
+            return swatch;
+        } catch { /* not generated yet */ }
+        try {
+            const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><circle cx="8" cy="8" r="6" fill="${color}"/></svg>`;
+            await vscode.workspace.fs.writeFile(swatch, Buffer.from(svg, 'utf-8'));
+            return swatch;
+        } catch { /* storage not writable — fall through to the plain icon */ }
+    } else if (color) {
+        return new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor(color));
+    }
+    return new vscode.ThemeIcon(project.isWorkspaceFile ? 'root-folder' : 'folder');
+}
+
+/** Open `project` in this window or a new one. */
+export async function openRecentProject(project: RecentProject, newWindow: boolean): Promise<void> {
+    await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.parse(project.uri), {
+        forceNewWindow: newWindow,
+    });
+}
+
+function isRecentProject(value: unknown): value is RecentProject {
+    const p = value as Partial<RecentProject> | undefined;
+    return typeof p?.uri === 'string' && typeof p.label === 'string';
+}
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { getActiveWorkspaceFolder, getProjectName, getProjectPath } from './workspaceFolder';
+import { getScopedConfiguration } from './configScope';
+
+/** One entry of the `projectLabel.rules` setting. */
+export interface LabelRule {
+    /** Optional display name shown in the tree view and tooltip. */
+    name?: string;
+    /** Glob pattern (`*`, `**`, `?`, leading `~`). */
+    glob?: string;
+    /** Regular expression source, used when `glob` is not set. */
+    regex?: string;
+    /** What the pattern is tested against (default: `path`). */
+    matchOn?: 'path' | 'folderName' | 'remoteAuthority';
+    /** Label text; may use labelTemplate tokens. */
+    label?: string;
+    icon?: string;
+    color?: string;
+    background?: 'error' | 'warning';
+}
+
+export interface RuleMatch {
+    rule: LabelRule;
+    /** Zero-based position in `projectLabel.rules`. */
+    index: number;
+}
+
+/**
+ * Evaluate `projectLabel.rules` in order against the labelled folder and
+ * return the first rule that matches. Rules without a pattern, or with an
+ * invalid regex, never match.
+ */
+export function resolveActiveRule(): RuleMatch | undefined {
+    const rules = getScopedConfiguration().get<LabelRule[]>('rules', []);
+    if (!Array.isArray(rules) || rules.length === 0) {
+        return undefined;
+    }
+
+    const folderUri = getActiveWorkspaceFolder()?.uri;
+    const subjects = {
+        path: getProjectPath(),
+        folderName: getProjectName(),
+        remoteAuthority: folderUri?.scheme === 'vscode-remote' ? folderUri.authority : '',
+    };
+
+    for (let index = 0; index < rules.length; index++) {
+        const rule = rules[index];
+        const subject = subjects[rule.matchOn ?? 'path'] ?? '';
+        if (subject && ruleMatches(rule, subject)) {
+            return { rule, index };
+        }
+    }
+    return undefined;
+}
+
+/** Human-readable rule description, e.g. `#2 Clients (~/work/clients/*)`. */
+export function describeRule(match: RuleMatch): string {
+    const pattern = match.rule.glob ?? `/${match.rule.regex ?? ''}/`;
+    return match.rule.name
+        ? `#${match.index + 1} ${match.rule.name} (${pattern})`
+        : `#${match.index + 1} ${pattern}`;
+}
+
+/** Map a rule's `background` to the status bar theme colors VS Code honours. */
+export function ruleBackgroundColor(rule: LabelRule): vscode.ThemeColor | undefined {
+    switch (rule.background) {
+        case 'error':
+            return new vscode.ThemeColor('statusBarItem.errorBackground');
+        case 'warning':
+            return new vscode.ThemeColor('statusBarItem.warningBackground');
+        default:
+            return undefined;
+    }
+}
+
+function ruleMatches(rule: LabelRule, subject: string): boolean {
+    const caseInsensitive = process.platform === 'win32';
+    try {
+        if (rule.glob) {
+            return globToRegExp(rule.glob, caseInsensitive).test(normalizePath(subject));
+        }
+        if (rule.regex) {
+            return new RegExp(rule.regex, caseInsensitive ? 'i' : '').test(subject);
+        }
+    } catch {
+        // Invalid pattern — treat as non-matching
+    }
+    return false;
+}
+
+function normalizePath(p: string): string {
+    return p.replace(/\\/g, '/');
+}
+
+/**
+ * Convert a glob to an anchored RegExp. `**` crosses path separators,
+ * `*` and `?` do not. A leading `~` expands to the home directory.
+ */
+function globToRegExp(glob: string, caseInsensitive: boolean): RegExp {
+    let pattern = glob;
+    if (pattern === '~' || pattern.startsWith('~/')) {
+        pattern = os.homedir() + pattern.substring(1);
+    }
+    pattern = normalizePath(pattern);
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        if (ch === '*') {
+            if (pattern[i + 1] === '*') {
+                i++;
+                // `**/` also matches zero directories
+                if (pattern[i + 1] === '/') {
+                    source += '(?:.*/)?';
+                    i++;
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else {
+            source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
@@ -1,13 +1,53 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { resolveLabelTemplate, TemplateValues } from './labelTemplate';
+import { restoreSignals, SignalField, silenceSignals } from './soundSnapshot';
+import { AutoSilence } from './autoSilence';
+import { getAllSignalKeys, getAnnouncementSignalKeys, getSignalRegistry, SIGNAL_GROUPS } from './signalRegistry';
+import {
+    getAvailableScopes, getDefinedScopes, getScopedConfiguration, isSettingScope,
+    resolveWriteScope, SettingScope, updateScopedSetting,
+} from './configScope';
+
+/** Values only the extension host can resolve, pushed to the webview. */
+export interface PanelLiveInfo {
+    /** Color derived for `projectLabel.color: "auto"`. */
+    autoColor: string;
+    /** The label text the status bar shows right now (rules, templates applied). */
+    label: string;
+    /** Codicon prefix, e.g. `$(bracket-dot)`. */
+    icon: string;
+    /** Effective label color: hex, theme color token or empty. */
+    color: string;
+    /** The window title VS Code shows, with every title variable expanded. */
+    windowTitle: string;
+    /** Real values for the labelTemplate tokens. */
+    templateValues: TemplateValues;
+}
+
+/** Settings bound to a panel control, shown with their defining scope. */
+const PANEL_SETTING_KEYS = [
+    'showProjectName', 'showProfile', 'showGitBranch', 'separator', 'customLabel',
+    'labelTemplate', 'alignment', 'priority', 'color', 'icon', 'updateWindowTitle',
+    'showInStatusBar', 'titleTemplate', 'useNativeTitleBar',
+];
 
 export class SettingsPanel {
     public static currentPanel: SettingsPanel | undefined;
     private readonly _panel: vscode.WebviewPanel;
+    private readonly _state: vscode.Memento;
+    private readonly _workspaceState: vscode.Memento;
+    private readonly _extensionUri: vscode.Uri;
+    private readonly _getLiveInfo: () => PanelLiveInfo;
+    private readonly _autoSilence: AutoSilence | undefined;
     private _disposables: vscode.Disposable[] = [];
 
-    public static show(extensionUri: vscode.Uri): void {
+    public static show(
+        context: vscode.ExtensionContext,
+        getLiveInfo: () => PanelLiveInfo,
+        autoSilence?: AutoSilence
+    ): void {
         const column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One;
 
         if (SettingsPanel.currentPanel) {
@@ -23,15 +63,25 @@ export class SettingsPanel {
             {
                 enableScripts: true,
                 retainContextWhenHidden: true,
-                localResourceRoots: [extensionUri],
+                localResourceRoots: [context.extensionUri],
             }
         );
 
-        SettingsPanel.currentPanel = new SettingsPanel(panel);
+        SettingsPanel.currentPanel = new SettingsPanel(panel, context, getLiveInfo, autoSilence);
     }
 
-    private constructor(panel: vscode.WebviewPanel) {
+    private constructor(
+        panel: vscode.WebviewPanel,
+        context: vscode.ExtensionContext,
+        getLiveInfo: () => PanelLiveInfo,
+        autoSilence: AutoSilence | undefined
+    ) {
         this._panel = panel;
+        this._state = context.globalState;
+        this._workspaceState = context.workspaceState;
+        this._extensionUri = context.extensionUri;
+        this._getLiveInfo = getLiveInfo;
+        this._autoSilence = autoSilence;
         this._update();
 
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
@@ -41,8 +91,12 @@ export class SettingsPanel {
             async (msg) => {
                 switch (msg.type) {
                     case 'updateSetting': {
-                        const config = vscode.workspace.getConfiguration('projectLabel');
-                        await config.update(msg.key, msg.value, vscode.ConfigurationTarget.Global);
+                        await updateScopedSetting(msg.key, msg.value, this._scopeOf(msg));
+                        break;
+                    }
+                    case 'resetSetting': {
+                        // Remove the value at this scope so the next one down applies
+                        await updateScopedSetting(msg.key, undefined, this._scopeOf(msg));
                         break;
                     }
                     case 'runCommand': {
@@ -50,17 +104,27 @@ export class SettingsPanel {
                         break;
                     }
                     case 'updateSignal': {
-                        const signals = vscode.workspace.getConfiguration('accessibility.signals');
-                        const val = { sound: msg.value ? 'off' : 'on' };
-                        try {
-                            await signals.update(msg.signal, val, vscode.ConfigurationTarget.Global);
-                        } catch { /* signal may not exist */ }
+                        // Same snapshot/restore path as the silence commands,
+                        // so unchecking restores the user's previous value
+                        const field: SignalField = msg.field === 'announcement' ? 'announcement' : 'sound';
+                        await this._setSignalsSilenced([msg.signal], field, msg.value, this._scopeOf(msg));
                         break;
                     }
                     case 'silenceAll': {
-                        const cmd = msg.value
-                            ? 'projectLabel.silenceAllSounds'
-                            : 'projectLabel.unsilenceAllSounds';
+                        if (this._scopeOf(msg) !== 'user') {
+                            const field: SignalField = msg.field === 'announcement' ? 'announcement' : 'sound';
+                            const keys = field === 'announcement' ? getAnnouncementSignalKeys() : getAllSignalKeys();
+                            await this._setSignalsSilenced(keys, field, msg.value, this._scopeOf(msg));
+                            this._doSendSignalStates();
+                            break;
+                        }
+                        const cmd = msg.field === 'announcement'
+                            ? (msg.value
+                                ? 'projectLabel.silenceAllAnnouncements'
+                                : 'projectLabel.unsilenceAllAnnouncements')
+                            : (msg.value
+                                ? 'projectLabel.silenceAllSounds'
+                                : 'projectLabel.unsilenceAllSounds');
                         await vscode.commands.executeCommand(cmd);
                         // All parallel writes are done — cancel any pending
                         // debounce and send final states immediately.
@@ -98,20 +162,99 @@ export class SettingsPanel {
             null,
             this._disposables
         );
+
+        // The title preview follows the active editor and its dirty state
+        vscode.window.onDidChangeActiveTextEditor(() => this._sendLiveInfo(), null, this._disposables);
+        vscode.workspace.onDidChangeTextDocument(
+            (e) => {
+                if (e.document === vscode.window.activeTextEditor?.document) {
+                    this._sendLiveInfo();
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    /** Push fresh preview data, e.g. after the label changed for a non-settings reason. */
+    public static refreshLiveInfo(): void {
+        SettingsPanel.currentPanel?._sendLiveInfo();
+    }
+
+    private _liveInfoDebounce: ReturnType<typeof setTimeout> | undefined;
+
+    /** Debounced: typing in the active editor fires on every keystroke. */
+    private _sendLiveInfo(): void {
+        if (this._liveInfoDebounce) {
+            clearTimeout(this._liveInfoDebounce);
+        }
+        this._liveInfoDebounce = setTimeout(() => {
+            this._liveInfoDebounce = undefined;
+            this._panel.webview.postMessage({ type: 'liveInfo', live: this._getPreview(this._getLiveInfo()) });
+        }, 200);
+    }
+
+    /** Live info in the form the webview preview renders. */
+    private _getPreview(live: PanelLiveInfo): { label: string; icon: string; color: string; windowTitle: string } {
+        return {
+            label: live.label,
+            icon: live.icon,
+            color: toCssColor(live.color),
+            windowTitle: live.windowTitle,
+        };
+    }
+
+    /** The scope picked in the panel, resolved for the setting a message targets. */
+    private _scopeOf(msg: { key?: string; scope?: unknown }): SettingScope {
+        return resolveWriteScope(msg.key ?? '', isSettingScope(msg.scope) ? msg.scope : 'user');
+    }
+
+    /**
+     * Silence or restore signals at User scope (snapshot in globalState) or
+     * for this workspace only (snapshot in workspaceState). Signal settings
+     * have no folder scope, so Folder means Workspace here.
+     */
+    private async _setSignalsSilenced(
+        keys: readonly string[],
+        field: SignalField,
+        silent: boolean,
+        scope: SettingScope
+    ): Promise<void> {
+        const [state, target] = scope === 'user'
+            ? [this._state, vscode.ConfigurationTarget.Global]
+            : [this._workspaceState, vscode.ConfigurationTarget.Workspace];
+        if (silent) {
+            await silenceSignals(state, keys, field, target);
+        } else {
+            await restoreSignals(state, keys, field, target);
+        }
+        // Like the silence commands: an auto-silence trigger ending must
+        // not undo a choice made here
+        if (field === 'sound') {
+            await this._autoSilence?.release(keys);
+        }
     }
 
     private _sendCurrentSettings(): void {
-        const config = vscode.workspace.getConfiguration('projectLabel');
+        const config = getScopedConfiguration();
+        const live = this._getLiveInfo();
+        const labelTemplate = config.get<string>('labelTemplate', '');
+        // Resolve against this window's real values to report template errors
+        const templatePreview = resolveLabelTemplate(labelTemplate, live.templateValues);
         this._panel.webview.postMessage({
             type: 'settingsUpdate',
             settings: {
                 showProjectName: config.get<boolean>('showProjectName', true),
                 showProfile: config.get<boolean>('showProfile', true),
+                showGitBranch: config.get<boolean>('showGitBranch', false),
                 separator: config.get<string>('separator', ' | '),
                 customLabel: config.get<string>('customLabel', ''),
+                labelTemplate,
+                labelTemplateErrors: templatePreview.errors,
                 alignment: config.get<string>('alignment', 'left'),
                 priority: config.get<number>('priority', 1000),
                 color: config.get<string>('color', ''),
+                autoColor: live.autoColor,
                 icon: config.get<string>('icon', '$(bracket-dot)'),
                 updateWindowTitle: config.get<boolean>('updateWindowTitle', true),
                 showInStatusBar: config.get<boolean>('showInStatusBar', true),
@@ -120,23 +263,28 @@ export class SettingsPanel {
                 useNativeTitleBar: config.get<boolean>('useNativeTitleBar', false),
                 silenceAllSounds: config.get<boolean>('silenceAllSounds', false),
             },
+            live: this._getPreview(live),
+            scopes: this._getScopeInfo(),
+            availableScopes: getAvailableScopes(),
         });
         this._sendSignalStates();
     }
 
-    private static readonly ALL_SIGNALS = [
-        'chatEditModifiedFile', 'chatRequestSent', 'chatResponseReceived',
-        'chatUserActionRequired', 'editsKept', 'nextEditSuggestion',
-        'codeActionApplied', 'codeActionTriggered', 'clear', 'progress',
-        'lineHasBreakpoint', 'lineHasError', 'lineHasFoldedArea',
-        'lineHasInlineSuggestion', 'lineHasWarning', 'noInlayHints',
-        'onDebugBreak', 'taskCompleted', 'taskFailed',
-        'terminalBell', 'terminalCommandFailed', 'terminalCommandSucceeded',
-        'terminalQuickFix', 'diffLineDeleted', 'diffLineInserted',
-        'diffLineModified', 'notebookCellCompleted', 'notebookCellFailed',
-        'voiceRecordingStarted', 'voiceRecordingStopped',
-        'save', 'format', 'positionHasError', 'positionHasWarning',
-    ];
+    /**
+     * Per setting: the scope whose value is in effect, and the panel scopes
+     * at which "reset to inherited" would remove a value.
+     */
+    private _getScopeInfo(): Record<string, { defining: string; resettable: SettingScope[] }> {
+        const info: Record<string, { defining: string; resettable: SettingScope[] }> = {};
+        for (const key of PANEL_SETTING_KEYS) {
+            const defined = getDefinedScopes(key);
+            info[key] = {
+                defining: defined[0] ?? 'default',
+                resettable: getAvailableScopes().filter(scope => defined.includes(resolveWriteScope(key, scope))),
+            };
+        }
+        return info;
+    }
 
     private _signalDebounce: ReturnType<typeof setTimeout> | undefined;
 
@@ -156,13 +304,17 @@ export class SettingsPanel {
 
     private _doSendSignalStates(): void {
         const signals = vscode.workspace.getConfiguration('accessibility.signals');
-        const states: Record<string, boolean> = {};
-        for (const key of SettingsPanel.ALL_SIGNALS) {
-            const val = signals.get<{ sound?: string }>(key);
-            // checked = muted (sound === 'off')
-            states[key] = val?.sound === 'off';
+        const states: Record<string, { sound: boolean; announcement: boolean }> = {};
+        const scopes: Record<string, string> = {};
+        for (const { key } of getSignalRegistry()) {
+            const val = signals.get<{ sound?: string; announcement?: string }>(key);
+            // checked = muted (field === 'off')
+            states[key] = { sound: val?.sound === 'off', announcement: val?.announcement === 'off' };
+            const inspected = signals.inspect(key);
+            scopes[key] = inspected?.workspaceValue !== undefined ? 'workspace'
+                : inspected?.globalValue !== undefined ? 'user' : 'default';
         }
-        this._panel.webview.postMessage({ type: 'signalStates', states });
+        this._panel.webview.postMessage({ type: 'signalStates', states, scopes });
     }
 
     /** Read extension version from package.json */
@@ -238,18 +390,45 @@ export class SettingsPanel {
         setTimeout(() => this._sendCurrentSettings(), 200);
     }
 
+    /** Sound Control rows, one group heading per category with signals. */
+    private _getSignalRowsHtml(): string {
+        const registry = getSignalRegistry();
+        return SIGNAL_GROUPS.map(group => {
+            const signals = registry.filter(s => s.groupId === group.id);
+            if (signals.length === 0) {
+                return '';
+            }
+            const rows = signals.map(s =>
+                `  <div class="row"><div class="row-label"><span class="name">${s.label}` +
+                ` <span class="scope-badge" data-signal-scope="${s.key}"></span></span></div>` +
+                `<div class="row-control signal-cols">` +
+                `<input type="checkbox" class="signal-cb" data-signal="${s.key}" data-field="sound" title="Mute sound">` +
+                (s.hasAnnouncement
+                    ? `<input type="checkbox" class="signal-cb" data-signal="${s.key}" data-field="announcement" title="Mute announcement">`
+                    : '<span class="signal-na" title="No announcement for this signal">—</span>') +
+                `</div></div>`
+            ).join('\n');
+            return `  <h3 class="sound-group">${group.icon} ${group.label}</h3>\n${rows}`;
+        }).filter(html => html).join('\n\n');
+    }
+
     private _getHtml(): string {
         const nonce = getNonce();
         const version = this._getVersion();
         const changelog = this._getLatestChangelog();
+        const webview = this._panel.webview;
+        const codiconsUri = webview.asWebviewUri(
+            vscode.Uri.joinPath(this._extensionUri, 'node_modules', '@vscode', 'codicons', 'dist', 'codicon.css')
+        );
         return /* html */ `<!DOCTYPE html>
 <html lang="en">
 <head>
 <meta charset="UTF-8">
 <meta http-equiv="Content-Security-Policy"
-  content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  content="default-src 'none'; style-src 'nonce-${nonce}' ${webview.cspSource}; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
 <title>Project Label Settings</title>
+<link rel="stylesheet" href="${codiconsUri}">
 <style nonce="${nonce}">
   :root {
     --bg: var(--vscode-editor-background, #1e1e1e);
@@ -363,6 +542,14 @@ export class SettingsPanel {
   .color-row input[type="text"] {
     width: 140px;
   }
+  .auto-color { margin-top: 6px; display: none; }
+  .auto-color.visible { display: flex; }
+  .swatch {
+    width: 20px;
+    height: 20px;
+    border-radius: 4px;
+    border: 1px solid var(--input-border);
+  }
 
   /* Buttons */
   button {
@@ -398,7 +585,48 @@ export class SettingsPanel {
     opacity: 0.85;
   }
   .sound-group:first-of-type { margin-top: 8px; }
+  .template-error { color: var(--vscode-errorForeground, #f48771); opacity: 1 !important; }
   .signal-cb { width: 16px; height: 16px; cursor: pointer; accent-color: var(--accent); }
+  .signal-cols {
+    display: grid;
+    grid-template-columns: 90px 90px;
+    justify-items: center;
+    align-items: center;
+  }
+  .signal-cols-header { font-size: 0.85em; opacity: 0.7; }
+  .signal-na { opacity: 0.4; }
+
+  /* Configuration scope */
+  .scope-bar {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    margin-bottom: 16px;
+  }
+  .scope-bar select { width: 160px; }
+  .scope-badge {
+    display: inline-block;
+    font-size: 0.75em;
+    font-weight: normal;
+    padding: 0 6px;
+    margin-left: 6px;
+    border-radius: 8px;
+    border: 1px solid var(--border);
+    opacity: 0.75;
+  }
+  .scope-badge:empty, .scope-badge.scope-default { display: none; }
+  .scope-badge.scope-workspace, .scope-badge.scope-folder {
+    border-color: var(--accent);
+    color: var(--accent);
+    opacity: 1;
+  }
+  .reset-btn {
+    padding: 0 6px;
+    margin-left: 4px;
+    font-size: 0.85em;
+    display: none;
+  }
+  .reset-btn.visible { display: inline-block; }
 
   /* Live preview */
   .preview-bar {
@@ -413,6 +641,20 @@ export class SettingsPanel {
     margin-top: 8px;
   }
 
+  .preview-bar .codicon { font-size: 14px; }
+  .title-preview {
+    background: var(--vscode-titleBar-activeBackground, #3c3c3c);
+    color: var(--vscode-titleBar-activeForeground, #cccccc);
+    padding: 4px 12px;
+    border-radius: 4px;
+    font-size: 0.9em;
+    margin-top: 8px;
+    text-align: center;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
   /* Version & changelog */
   .version-badge {
     display: inline-block;
@@ -453,6 +695,14 @@ export class SettingsPanel {
 <h1><span class="icon">⚙️</span> Project Label Settings <span class="version-badge">v${version}</span></h1>
 <p class="subtitle">Configure how project name and profile are displayed in VS Code</p>
 
+<div class="scope-bar">
+  <label for="scopeSelect"><b>Save changes to:</b></label>
+  <select id="scopeSelect">
+    <option value="user">User</option>
+  </select>
+  <span class="desc" style="opacity: 0.65;">Badges show where each value comes from; ↺ resets it to the inherited value</span>
+</div>
+
 <div class="changelog-section">
 ${changelog}
 </div>
@@ -481,6 +731,16 @@ ${changelog}
     </div>
   </div>
 
+  <div class="row">
+    <div class="row-label">
+      <span class="name">Show Git Branch</span>
+      <span class="desc">Append branch, dirty marker (*) and ahead/behind counts</span>
+    </div>
+    <div class="row-control">
+      <input type="checkbox" id="showGitBranch" data-key="showGitBranch">
+    </div>
+  </div>
+
   <div class="row">
     <div class="row-label">
       <span class="name">Show in Status Bar</span>
@@ -501,6 +761,18 @@ ${changelog}
     </div>
   </div>
 
+  <div class="row">
+    <div class="row-label">
+      <span class="name">Label Template</span>
+      <span class="desc">Tokens: \${project}, \${profile}, \${folderPath}, \${workspaceName}, \${remote}, \${branch}, \${dirty}, \${ahead}, \${behind}, \${git}, \${env:VAR}. Conditional: \${profile? [\${profile}]}</span>
+      <span class="desc template-error" id="labelTemplateErrors"></span>
+    </div>
+    <div class="row-control">
+      <input type="text" id="labelTemplate" data-key="labelTemplate"
+        placeholder="&dollar;{project}&dollar;{profile? [&dollar;{profile}]}">
+    </div>
+  </div>
+
   <div class="row">
     <div class="row-label">
       <span class="name">Separator</span>
@@ -516,7 +788,15 @@ ${changelog}
       <span class="name">Preview</span>
     </div>
   </div>
-  <div class="preview-bar" id="previewBar">$(bracket-dot) Loading…</div>
+  <div class="preview-bar" id="previewBar">Loading…</div>
+
+  <div class="row" style="border-bottom:none; padding-bottom:0; margin-top: 8px;">
+    <div class="row-label">
+      <span class="name">Window Title</span>
+      <span class="desc">As shown for the current editor (when Update Window Title is on)</span>
+    </div>
+  </div>
+  <div class="title-preview" id="titlePreview"></div>
 </div>
 
 <!-- ── Appearance Section ───────────── -->
@@ -553,12 +833,17 @@ ${changelog}
   <div class="row">
     <div class="row-label">
       <span class="name">Label Color</span>
-      <span class="desc">Status bar label color (hex, e.g. #b87333)</span>
+      <span class="desc">Status bar label color (hex, e.g. #b87333), or "auto" for a stable per-project color</span>
     </div>
     <div class="row-control">
       <div class="color-row">
         <input type="color" id="colorPicker" value="#ffffff">
-        <input type="text" id="color" data-key="color" placeholder="#b87333 or empty">
+        <input type="text" id="color" data-key="color" placeholder="#b87333, auto or empty">
+      </div>
+      <div class="color-row auto-color" id="autoColorRow">
+        <span class="swatch" id="autoColorSwatch"></span>
+        <code id="autoColorValue"></code>
+        <button class="btn-secondary" data-command="projectLabel.pinAutoColor">📌 Pin this color</button>
       </div>
     </div>
   </div>
@@ -628,65 +913,37 @@ ${changelog}
 <div class="section">
   <h2>🔇 Sound Control</h2>
 
-  <div class="row" style="border-bottom: 2px solid var(--accent, #007fd4); padding-bottom: 10px; margin-bottom: 6px;">
+  <div class="btn-row" style="margin-bottom: 10px;">
+    <button data-command="projectLabel.switchSoundPreset">🎚️ Switch Preset…</button>
+    <button class="btn-secondary" data-command="projectLabel.saveSoundPreset">💾 Save as Preset…</button>
+  </div>
+
+  <div class="row">
     <div class="row-label">
       <span class="name">✅ Silence ALL Sounds</span>
       <span class="desc">Master switch — mute/unmute every sound signal at once</span>
     </div>
     <div class="row-control">
-      <input type="checkbox" id="silenceAllSounds">
+      <input type="checkbox" id="silenceAllSounds" class="master-cb" data-field="sound">
     </div>
   </div>
 
-  <h3 class="sound-group">🤖 Copilot / Chat</h3>
-  <div class="row"><div class="row-label"><span class="name">Chat Request Sent</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="chatRequestSent"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Chat Response Received</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="chatResponseReceived"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Chat User Action Required</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="chatUserActionRequired"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Chat Edit Modified File</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="chatEditModifiedFile"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Edits Kept</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="editsKept"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Next Edit Suggestion</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="nextEditSuggestion"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Code Action Applied</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="codeActionApplied"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Code Action Triggered</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="codeActionTriggered"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Clear</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="clear"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Progress</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="progress"></div></div>
-
-  <h3 class="sound-group">✏️ Editor</h3>
-  <div class="row"><div class="row-label"><span class="name">Line Has Error</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="lineHasError"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Line Has Warning</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="lineHasWarning"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Line Has Breakpoint</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="lineHasBreakpoint"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Line Has Folded Area</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="lineHasFoldedArea"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Line Has Inline Suggestion</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="lineHasInlineSuggestion"></div></div>
-  <div class="row"><div class="row-label"><span class="name">No Inlay Hints</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="noInlayHints"></div></div>
-  <div class="row"><div class="row-label"><span class="name">On Debug Break</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="onDebugBreak"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Position Has Error</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="positionHasError"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Position Has Warning</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="positionHasWarning"></div></div>
-
-  <h3 class="sound-group">✅ Tasks</h3>
-  <div class="row"><div class="row-label"><span class="name">Task Completed</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="taskCompleted"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Task Failed</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="taskFailed"></div></div>
-
-  <h3 class="sound-group">💻 Terminal</h3>
-  <div class="row"><div class="row-label"><span class="name">Terminal Bell</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="terminalBell"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Terminal Command Failed</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="terminalCommandFailed"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Terminal Command Succeeded</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="terminalCommandSucceeded"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Terminal Quick Fix</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="terminalQuickFix"></div></div>
-
-  <h3 class="sound-group">🔀 Diff</h3>
-  <div class="row"><div class="row-label"><span class="name">Diff Line Deleted</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="diffLineDeleted"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Diff Line Inserted</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="diffLineInserted"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Diff Line Modified</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="diffLineModified"></div></div>
-
-  <h3 class="sound-group">📓 Notebook</h3>
-  <div class="row"><div class="row-label"><span class="name">Notebook Cell Completed</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="notebookCellCompleted"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Notebook Cell Failed</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="notebookCellFailed"></div></div>
-
-  <h3 class="sound-group">🎤 Voice</h3>
-  <div class="row"><div class="row-label"><span class="name">Voice Recording Started</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="voiceRecordingStarted"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Voice Recording Stopped</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="voiceRecordingStopped"></div></div>
-
-  <h3 class="sound-group">💾 Save / Format</h3>
-  <div class="row"><div class="row-label"><span class="name">Save</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="save"></div></div>
-  <div class="row"><div class="row-label"><span class="name">Format</span></div><div class="row-control"><input type="checkbox" class="signal-cb" data-signal="format"></div></div>
+  <div class="row" style="border-bottom: 2px solid var(--accent, #007fd4); padding-bottom: 10px; margin-bottom: 6px;">
+    <div class="row-label">
+      <span class="name">🗣️ Silence ALL Announcements</span>
+      <span class="desc">Master switch — mute/unmute every screen-reader announcement at once</span>
+    </div>
+    <div class="row-control">
+      <input type="checkbox" id="silenceAllAnnouncements" class="master-cb" data-field="announcement">
+    </div>
+  </div>
+
+  <div class="row">
+    <div class="row-label"></div>
+    <div class="row-control signal-cols signal-cols-header"><span>🔊 Sound</span><span>🗣️ Announcement</span></div>
+  </div>
+
+${this._getSignalRowsHtml()}
 
 </div>
 <!-- ── Actions ──────────────────────── -->
@@ -696,28 +953,99 @@ ${changelog}
     <button data-command="projectLabel.refresh">🔄 Refresh Label</button>
     <button data-command="projectLabel.copyLabel">📋 Copy Label</button>
     <button class="btn-secondary" data-command="workbench.action.openSettings" data-args="projectLabel">Open JSON Settings</button>
+    <button class="btn-secondary" data-command="projectLabel.exportConfig">📤 Export Config…</button>
+    <button class="btn-secondary" data-command="projectLabel.importConfig">📥 Import Config…</button>
   </div>
 </div>
 
 <script nonce="${nonce}">
   const vscode = acquireVsCodeApi();
   let currentSettings = {};
+  let currentScope = (vscode.getState() || {}).scope || 'user';
+  let scopeInfo = {};
+
+  // Scope badge and "reset to inherited" button next to every setting's name
+  document.querySelectorAll('[data-key]').forEach(el => {
+    const name = el.closest('.row')?.querySelector('.row-label .name');
+    if (!name || name.querySelector('.scope-badge')) return;
+    const badge = document.createElement('span');
+    badge.className = 'scope-badge';
+    badge.dataset.scopeFor = el.dataset.key;
+    const reset = document.createElement('button');
+    reset.className = 'btn-secondary reset-btn';
+    reset.dataset.reset = el.dataset.key;
+    reset.title = 'Reset to inherited value';
+    reset.textContent = '↺';
+    reset.addEventListener('click', () => {
+      vscode.postMessage({ type: 'resetSetting', key: el.dataset.key, scope: currentScope });
+    });
+    name.append(badge, reset);
+  });
+
+  const scopeSelect = document.getElementById('scopeSelect');
+  scopeSelect.addEventListener('change', () => {
+    currentScope = scopeSelect.value;
+    vscode.setState({ ...(vscode.getState() || {}), scope: currentScope });
+    applyScopeInfo();
+  });
+
+  function applyAvailableScopes(scopes) {
+    const labels = { user: 'User', workspace: 'Workspace', folder: 'Folder' };
+    scopeSelect.innerHTML = '';
+    scopes.forEach(scope => {
+      const option = document.createElement('option');
+      option.value = scope;
+      option.textContent = labels[scope];
+      scopeSelect.appendChild(option);
+    });
+    if (!scopes.includes(currentScope)) currentScope = 'user';
+    scopeSelect.value = currentScope;
+  }
+
+  function setBadge(badge, scope) {
+    const labels = { user: 'User', workspace: 'Workspace', folder: 'Folder', default: 'Default' };
+    badge.className = 'scope-badge scope-' + scope;
+    badge.textContent = labels[scope] || '';
+    badge.title = 'Value defined in ' + (labels[scope] || scope) + ' settings';
+  }
+
+  function applyScopeInfo() {
+    document.querySelectorAll('.scope-badge[data-scope-for]').forEach(badge => {
+      const info = scopeInfo[badge.dataset.scopeFor];
+      if (info) setBadge(badge, info.defining);
+    });
+    document.querySelectorAll('.reset-btn[data-reset]').forEach(btn => {
+      const info = scopeInfo[btn.dataset.reset];
+      btn.classList.toggle('visible', !!info && info.resettable.includes(currentScope));
+    });
+  }
 
   // ── Receive settings from extension ──
   window.addEventListener('message', (event) => {
     const msg = event.data;
     if (msg.type === 'settingsUpdate') {
       currentSettings = msg.settings;
+      scopeInfo = msg.scopes || {};
+      applyAvailableScopes(msg.availableScopes || ['user']);
       applySettings(msg.settings);
+      applyLiveInfo(msg.live);
+      applyScopeInfo();
+    }
+    if (msg.type === 'liveInfo') {
+      applyLiveInfo(msg.live);
     }
     if (msg.type === 'signalStates') {
       applySignalStates(msg.states);
+      document.querySelectorAll('.scope-badge[data-signal-scope]').forEach(badge => {
+        setBadge(badge, (msg.scopes || {})[badge.dataset.signalScope] || 'default');
+      });
     }
   });
 
   function applySettings(s) {
     setCheck('showProjectName', s.showProjectName);
     setCheck('showProfile', s.showProfile);
+    setCheck('showGitBranch', s.showGitBranch);
     setCheck('showInStatusBar', s.showInStatusBar);
     setCheck('updateWindowTitle', s.updateWindowTitle);
     setCheck('useNativeTitleBar', s.useNativeTitleBar);
@@ -726,6 +1054,7 @@ ${changelog}
     // to avoid fighting with the debounced signal state broadcast.
 
     setValue('customLabel', s.customLabel);
+    setValue('labelTemplate', s.labelTemplate);
     setValue('separator', s.separator);
     setValue('color', s.color);
     setValue('priority', s.priority);
@@ -739,7 +1068,16 @@ ${changelog}
       document.getElementById('colorPicker').value = s.color;
     }
 
-    updatePreview(s);
+    // Derived swatch for color: "auto"
+    const isAuto = (s.color || '').trim().toLowerCase() === 'auto';
+    document.getElementById('autoColorRow').classList.toggle('visible', isAuto);
+    if (isAuto) {
+      document.getElementById('autoColorSwatch').style.background = s.autoColor;
+      document.getElementById('autoColorValue').textContent = s.autoColor;
+      document.getElementById('colorPicker').value = s.autoColor;
+    }
+
+    showTemplateErrors(s);
   }
 
   function setCheck(id, val) {
@@ -755,24 +1093,40 @@ ${changelog}
     if (el) el.value = val ?? '';
   }
 
-  function updatePreview(s) {
-    const parts = [];
-    if (s.customLabel) {
-      parts.push(s.customLabel);
-    } else {
-      if (s.showProjectName) parts.push('MyProject');
-      if (s.showProfile) parts.push('Profile');
-    }
-    const label = parts.join(s.separator || ' | ');
-    const icon = s.icon || '';
+  function showTemplateErrors(s) {
+    document.getElementById('labelTemplateErrors').textContent =
+      (s.labelTemplateErrors || []).join('; ');
+  }
+
+  // Real label and window title, resolved by the extension host
+  function applyLiveInfo(live) {
     const bar = document.getElementById('previewBar');
-    bar.textContent = icon ? icon + ' ' + label : label;
-    bar.style.color = (s.color && s.color.startsWith('#')) ? s.color : '';
+    renderCodicons(bar, live.icon ? live.icon + ' ' + live.label : live.label);
+    bar.style.color = live.color || '';
+    bar.style.display = live.label ? '' : 'none';
+    document.getElementById('titlePreview').textContent = live.windowTitle;
   }
 
+  // "$(name)" → codicon span; everything else stays plain text
+  function renderCodicons(el, text) {
+    el.textContent = '';
+    const pattern = /\\$\\(([a-z0-9-]+)(~spin)?\\)/g;
+    let last = 0;
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      el.append(text.slice(last, match.index));
+      const icon = document.createElement('span');
+      icon.className = 'codicon codicon-' + match[1] + (match[2] ? ' codicon-modifier-spin' : '');
+      el.append(icon);
+      last = pattern.lastIndex;
+    }
+    el.append(text.slice(last));
+  }
+
+
   // ── Send changes back to extension ──
   function sendUpdate(key, value) {
-    vscode.postMessage({ type: 'updateSetting', key, value });
+    vscode.postMessage({ type: 'updateSetting', key, value, scope: currentScope });
   }
 
   function runCommand(cmd) {
@@ -786,41 +1140,47 @@ ${changelog}
     });
   });
 
-  // Bind master "Silence ALL" checkbox (no data-key — uses dedicated handler)
-  const masterCb = document.getElementById('silenceAllSounds');
-  if (masterCb) {
+  // Bind master "Silence ALL" checkboxes (no data-key — dedicated handler),
+  // one per field: sound and announcement
+  document.querySelectorAll('.master-cb').forEach(masterCb => {
     masterCb.addEventListener('change', () => {
       const silent = masterCb.checked;
-      // Visually toggle every signal checkbox immediately
-      document.querySelectorAll('.signal-cb').forEach(cb => { cb.checked = silent; });
+      const field = masterCb.dataset.field;
+      // Visually toggle every signal checkbox of this field immediately
+      document.querySelectorAll('.signal-cb[data-field="' + field + '"]')
+        .forEach(cb => { cb.checked = silent; });
       // Tell the extension to run the silence/unsilence command
-      vscode.postMessage({ type: 'silenceAll', value: silent });
+      vscode.postMessage({ type: 'silenceAll', field, value: silent, scope: currentScope });
     });
-  }
+  });
 
   // Bind individual signal checkboxes
   document.querySelectorAll('.signal-cb').forEach(el => {
     el.addEventListener('change', () => {
-      vscode.postMessage({ type: 'updateSignal', signal: el.dataset.signal, value: el.checked });
+      vscode.postMessage({
+        type: 'updateSignal', signal: el.dataset.signal, field: el.dataset.field, value: el.checked,
+        scope: currentScope,
+      });
       // Sync master checkbox: checked only if ALL signals are checked
-      syncMasterCheckbox();
+      syncMasterCheckboxes();
     });
   });
 
-  function syncMasterCheckbox() {
-    const all = document.querySelectorAll('.signal-cb');
-    const allChecked = Array.from(all).every(cb => cb.checked);
-    if (masterCb) masterCb.checked = allChecked;
+  function syncMasterCheckboxes() {
+    document.querySelectorAll('.master-cb').forEach(masterCb => {
+      const all = document.querySelectorAll('.signal-cb[data-field="' + masterCb.dataset.field + '"]');
+      masterCb.checked = all.length > 0 && Array.from(all).every(cb => cb.checked);
+    });
   }
 
   function applySignalStates(states) {
     document.querySelectorAll('.signal-cb').forEach(el => {
       const key = el.dataset.signal;
       if (key && states[key] !== undefined) {
-        el.checked = states[key];
+        el.checked = states[key][el.dataset.field];
       }
     });
-    syncMasterCheckbox();
+    syncMasterCheckboxes();
   }
 
   // Bind text/number inputs (debounced)
@@ -868,6 +1228,9 @@ ${changelog}
 
     public dispose(): void {
         SettingsPanel.currentPanel = undefined;
+        if (this._liveInfoDebounce) {
+            clearTimeout(this._liveInfoDebounce);
+        }
         this._panel.dispose();
         while (this._disposables.length) {
             const d = this._disposables.pop();
@@ -876,6 +1239,15 @@ ${changelog}
     }
 }
 
+/** A label color as CSS: hex as-is, theme tokens via the webview's CSS variables. */
+function toCssColor(color: string): string {
+    const trimmed = color.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+        return trimmed;
+    }
+    return `var(--vscode-${trimmed.replace(/\./g, '-')})`;
+}
+
 function getNonce(): string {
     let text = '';
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+
+/** A category of accessibility signals shown together in the UI. */
+export interface SignalGroup {
+    id: string;
+    label: string;
+    icon: string;
+    /** Known members, in display order. Metadata only — not a source of truth. */
+    keys: readonly string[];
+}
+
+export interface SignalInfo {
+    /** Key under `accessibility.signals`, e.g. `chatRequestSent`. */
+    key: string;
+    /** Human-readable name, e.g. "Chat Request Sent". */
+    label: string;
+    groupId: string;
+    /** Whether the signal also has a screen-reader `announcement` field. */
+    hasAnnouncement: boolean;
+}
+
+/**
+ * Category metadata for signals we know about. Which signals exist is
+ * decided at runtime by `getSignalRegistry()`; anything not listed here
+ * lands in the "Other" group.
+ */
+export const SIGNAL_GROUPS: readonly SignalGroup[] = [
+    {
+        id: 'copilot', label: 'Copilot / Chat', icon: '🤖', keys: [
+            'chatRequestSent', 'chatResponseReceived', 'chatUserActionRequired',
+            'chatEditModifiedFile', 'editsKept', 'nextEditSuggestion',
+            'codeActionApplied', 'codeActionTriggered', 'clear', 'progress',
+        ],
+    },
+    {
+        id: 'editor', label: 'Editor', icon: '✏️', keys: [
+            'lineHasError', 'lineHasWarning', 'lineHasBreakpoint', 'lineHasFoldedArea',
+            'lineHasInlineSuggestion', 'noInlayHints', 'onDebugBreak',
+            'positionHasError', 'positionHasWarning',
+        ],
+    },
+    { id: 'tasks', label: 'Tasks', icon: '✅', keys: ['taskCompleted', 'taskFailed'] },
+    {
+        id: 'terminal', label: 'Terminal', icon: '💻', keys: [
+            'terminalBell', 'terminalCommandFailed', 'terminalCommandSucceeded', 'terminalQuickFix',
+        ],
+    },
+    { id: 'diff', label: 'Diff', icon: '🔀', keys: ['diffLineDeleted', 'diffLineInserted', 'diffLineModified'] },
+    { id: 'notebook', label: 'Notebook', icon: '📓', keys: ['notebookCellCompleted', 'notebookCellFailed'] },
+    { id: 'voice', label: 'Voice', icon: '🎤', keys: ['voiceRecordingStarted', 'voiceRecordingStopped'] },
+    { id: 'save', label: 'Save / Format', icon: '💾', keys: ['save', 'format'] },
+    { id: 'other', label: 'Other', icon: '🔔', keys: [] },
+];
+
+const OTHER_GROUP = 'other';
+
+/**
+ * Every accessibility signal registered in the running VS Code, discovered
+ * from the `accessibility.signals` configuration schema (each signal is an
+ * object setting whose default has a `sound` field). Known signals come
+ * first, in category order; new ones go to "Other". Signals that were
+ * removed from VS Code simply don't appear, so we never write to them.
+ *
+ * If discovery finds nothing (very old VS Code), the known keys are used.
+ */
+export function getSignalRegistry(): SignalInfo[] {
+    const discovered = discoverSignals();
+    const available = discovered.size > 0
+        ? discovered
+        : new Map(SIGNAL_GROUPS.flatMap(g => g.keys.map(k => [k, true] as const)));
+
+    const result: SignalInfo[] = [];
+    const placed = new Set<string>();
+    for (const group of SIGNAL_GROUPS) {
+        for (const key of group.keys) {
+            if (available.has(key) && !placed.has(key)) {
+                placed.add(key);
+                result.push({
+                    key, label: humanize(key), groupId: group.id,
+                    hasAnnouncement: available.get(key) ?? false,
+                });
+            }
+        }
+    }
+    for (const key of [...available.keys()].filter(k => !placed.has(k)).sort()) {
+        result.push({
+            key, label: humanize(key), groupId: OTHER_GROUP,
+            hasAnnouncement: available.get(key) ?? false,
+        });
+    }
+    return result;
+}
+
+/** Keys of every registered signal. */
+export function getAllSignalKeys(): string[] {
+    return getSignalRegistry().map(s => s.key);
+}
+
+/** Keys of every registered signal that has an `announcement` field. */
+export function getAnnouncementSignalKeys(): string[] {
+    return getSignalRegistry().filter(s => s.hasAnnouncement).map(s => s.key);
+}
+
+/** Keys of the registered signals in one category. */
+export function getSignalKeysInGroup(groupId: string): string[] {
+    return getSignalRegistry().filter(s => s.groupId === groupId).map(s => s.key);
+}
+
+/** Registered signal keys → whether each has an `announcement` field. */
+function discoverSignals(): Map<string, boolean> {
+    const config = vscode.workspace.getConfiguration('accessibility.signals');
+    const signals = new Map<string, boolean>();
+    // WorkspaceConfiguration exposes the merged settings object as own
+    // properties alongside its get/has/inspect/update methods. Only keys
+    // with a schema default are registered signals — stray keys in a
+    // user's settings.json have no default and are skipped.
+    for (const key of Object.keys(config)) {
+        if (!/^[A-Za-z0-9]+$/.test(key)) {
+            continue;
+        }
+        const defaultValue = config.inspect<unknown>(key)?.defaultValue;
+        if (defaultValue && typeof defaultValue === 'object' && 'sound' in defaultValue) {
+            signals.set(key, 'announcement' in defaultValue);
+        }
+    }
+    return signals;
+}
+
+/** `chatRequestSent` → `Chat Request Sent` */
+function humanize(key: string): string {
+    const spaced = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+    return spaced.charAt(0).toUpperCase() + spaced.substring(1);
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { getSilencedByUs, restoreSignals, SignalField, silenceSignals } from './soundSnapshot';
+import { getAllSignalKeys, getAnnouncementSignalKeys, getSignalKeysInGroup } from './signalRegistry';
+
+/**
+ * globalState key holding the user's saved presets. Registered with
+ * `setKeysForSync` so presets roam with Settings Sync.
+ */
+export const SOUND_PRESETS_KEY = 'projectLabel.soundPresets';
+
+/**
+ * A named set of silenced signals. Signals not listed that we silenced are
+ * restored; ones the user turned off themselves stay off.
+ */
+export interface SoundPreset {
+    name: string;
+    /** Signal keys whose `sound` is silenced. */
+    sound: string[];
+    /** Signal keys whose `announcement` is silenced. */
+    announcement: string[];
+}
+
+export interface SoundPresetEntry {
+    preset: SoundPreset;
+    builtIn: boolean;
+    description: string;
+}
+
+/** Shape of an exported presets file. */
+interface SoundPresetsFile {
+    version: 1;
+    presets: SoundPreset[];
+}
+
+/** Signals that still matter while focused: failures and requests for input. */
+const FOCUS_KEEP = [
+    'taskFailed', 'terminalCommandFailed', 'notebookCellFailed',
+    'chatUserActionRequired', 'onDebugBreak',
+];
+
+/**
+ * Built-in presets. Built from the signal registry each time, so they
+ * cover whatever signals the running VS Code has.
+ */
+function getBuiltInPresets(): SoundPresetEntry[] {
+    return [
+        {
+            preset: {
+                name: 'Focus',
+                sound: getAllSignalKeys().filter(k => !FOCUS_KEEP.includes(k)),
+                announcement: [],
+            },
+            builtIn: true,
+            description: 'Only failures and prompts that need you make a sound',
+        },
+        {
+            preset: {
+                name: 'Pairing',
+                sound: ['editor', 'diff', 'copilot'].flatMap(getSignalKeysInGroup),
+                announcement: [],
+            },
+            builtIn: true,
+            description: 'No editor, diff or chat cues while someone watches your screen',
+        },
+        {
+            preset: {
+                name: 'Presentation',
+                sound: getAllSignalKeys(),
+                announcement: getAnnouncementSignalKeys(),
+            },
+            builtIn: true,
+            description: 'Every sound and announcement silenced',
+        },
+    ];
+}
+
+/** Built-in presets followed by the user's own, in save order. */
+export function getSoundPresets(state: vscode.Memento): SoundPresetEntry[] {
+    const builtIns = getBuiltInPresets();
+    const builtInNames = new Set(builtIns.map(e => e.preset.name.toLowerCase()));
+    const saved = getSavedSoundPresets(state)
+        .filter(p => !builtInNames.has(p.name.toLowerCase()))
+        .map(preset => ({
+            preset,
+            builtIn: false,
+            description: `${preset.sound.length} sound(s), ${preset.announcement.length} announcement(s) silenced`,
+        }));
+    return [...builtIns, ...saved];
+}
+
+/** Whether `name` is taken by a built-in preset (case-insensitive). */
+export function isBuiltInPresetName(name: string): boolean {
+    return getBuiltInPresets().some(e => e.preset.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+/** The current per-signal states as a preset called `name`. */
+export function captureSoundPreset(name: string): SoundPreset {
+    return {
+        name,
+        sound: getSilencedKeys(getAllSignalKeys(), 'sound'),
+        announcement: getSilencedKeys(getAnnouncementSignalKeys(), 'announcement'),
+    };
+}
+
+/** The first preset whose silenced signals equal the current state, if any. */
+export function findActivePreset(entries: readonly SoundPresetEntry[]): SoundPresetEntry | undefined {
+    const current = captureSoundPreset('');
+    // Presets synced from another machine may name signals this one lacks
+    const known = new Set(getAllSignalKeys());
+    const has = (k: string) => known.has(k);
+    return entries.find(e =>
+        sameKeys(e.preset.sound.filter(has), current.sound) &&
+        sameKeys(e.preset.announcement.filter(has), current.announcement));
+}
+
+/** Save `preset`, replacing a saved preset of the same name. */
+export async function saveSoundPreset(state: vscode.Memento, preset: SoundPreset): Promise<void> {
+    const saved = getSavedSoundPresets(state)
+        .filter(p => p.name.toLowerCase() !== preset.name.toLowerCase());
+    await state.update(SOUND_PRESETS_KEY, [...saved, preset]);
+}
+
+/** Delete a saved preset. Returns false if no preset had that name. */
+export async function deleteSoundPreset(state: vscode.Memento, name: string): Promise<boolean> {
+    const saved = getSavedSoundPresets(state);
+    const remaining = saved.filter(p => p.name !== name);
+    if (remaining.length === saved.length) {
+        return false;
+    }
+    await state.update(SOUND_PRESETS_KEY, remaining);
+    return true;
+}
+
+/**
+ * Switch to `preset`: silence the signals it lists and restore every other
+ * one that we silenced to the user's own value, through the same snapshot
+ * as the silence commands. Signals the user switched off by hand are not
+ * ours to restore and stay off. Signals missing from the running VS Code
+ * are skipped.
+ */
+export async function applySoundPreset(state: vscode.Memento, preset: SoundPreset): Promise<void> {
+    const fields: Array<[SignalField, string[]]> = [
+        ['sound', getAllSignalKeys()],
+        ['announcement', getAnnouncementSignalKeys()],
+    ];
+    for (const [field, available] of fields) {
+        const silenced = new Set(preset[field]);
+        const ours = new Set(getSilencedByUs(state, field));
+        // Restore first so a signal silenced by this preset keeps its snapshot
+        await restoreSignals(state, available.filter(k => !silenced.has(k) && ours.has(k)), field);
+        await silenceSignals(state, available.filter(k => silenced.has(k)), field);
+    }
+}
+
+/** Saved presets as pretty-printed JSON, for the export command. */
+export function serializeSoundPresets(state: vscode.Memento): string {
+    const file: SoundPresetsFile = { version: 1, presets: getSavedSoundPresets(state) };
+    return JSON.stringify(file, null, 2) + '\n';
+}
+
+/** The user's own presets, in save order. */
+export function getSavedSoundPresets(state: vscode.Memento): SoundPreset[] {
+    const saved = state.get<unknown>(SOUND_PRESETS_KEY, []);
+    return Array.isArray(saved) ? saved.filter(isSoundPreset) : [];
+}
+
+export function isSoundPreset(value: unknown): value is SoundPreset {
+    const p = value as Partial<SoundPreset> | undefined;
+    return typeof p?.name === 'string' && Array.isArray(p.sound) && Array.isArray(p.announcement);
+}
+
+function getSilencedKeys(keys: readonly string[], field: SignalField): string[] {
+    const signals = vscode.workspace.getConfiguration('accessibility.signals');
+    return keys.filter(key => signals.get<Record<string, string>>(key)?.[field] === 'off');
+}
+
+function sameKeys(a: readonly string[], b: readonly string[]): boolean {
+    const set = new Set(a);
+    return set.size === new Set(b).size && b.every(k => set.has(k));
+}
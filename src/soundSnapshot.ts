@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+
+/**
+ * globalState key holding, per signal, the user's own values from before
+ * we silenced it. Presence of an entry means "currently silenced by us".
+ */
+const SNAPSHOT_KEY = 'projectLabel.signalSnapshot';
+
+/**
+ * Every snapshot read-modify-write runs on this chain. Both operations
+ * await settings writes between reading the snapshot and storing it, so
+ * an overlapping call (a second checkbox click, an auto-silence trigger,
+ * quiet hours) would otherwise be overwritten by a stale copy.
+ */
+let queue: Promise<unknown> = Promise.resolve();
+
+/** The two independently mutable fields of every accessibility signal. */
+export type SignalField = 'sound' | 'announcement';
+
+/** A signal's value at each configuration target; undefined = unset. */
+interface SignalSnapshotEntry {
+    global?: SignalValue;
+    workspace?: SignalValue;
+    /** Fields we have turned off. Missing in pre-announcement snapshots. */
+    fields?: SignalField[];
+}
+
+type SignalValue = { sound?: string; announcement?: string } & Record<string, unknown>;
+
+/**
+ * Set `field: "off"` on each signal, first snapshotting its full
+ * user/workspace values so `restoreSignals()` can put them back exactly.
+ *
+ * A signal that is already in the snapshot keeps its original values, so
+ * silencing twice (or silencing sound, then announcements) never records
+ * our own "off" as the user's value. Other fields are preserved.
+ *
+ * With the Workspace target only the workspace value is written, muting
+ * the signal in this workspace alone. Pass workspaceState as `state` then,
+ * so the snapshot belongs to this workspace too.
+ */
+export function silenceSignals(
+    state: vscode.Memento,
+    keys: readonly string[],
+    field: SignalField = 'sound',
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+): Promise<void> {
+    return serialized(() => silence(state, keys, field, target));
+}
+
+async function silence(
+    state: vscode.Memento,
+    keys: readonly string[],
+    field: SignalField,
+    target: vscode.ConfigurationTarget
+): Promise<void> {
+    const signals = vscode.workspace.getConfiguration('accessibility.signals');
+    const snapshot = { ...state.get<Record<string, SignalSnapshotEntry>>(SNAPSHOT_KEY, {}) };
+
+    for (const key of keys) {
+        let entry = snapshot[key];
+        if (!entry) {
+            const inspected = signals.inspect<SignalValue>(key);
+            entry = {
+                global: clone(inspected?.globalValue),
+                workspace: clone(inspected?.workspaceValue),
+                fields: [],
+            };
+        }
+        const fields = silencedFields(entry);
+        snapshot[key] = { ...entry, fields: fields.includes(field) ? fields : [...fields, field] };
+    }
+    // Persist before writing so a crash mid-way can still be undone
+    await state.update(SNAPSHOT_KEY, snapshot);
+
+    // Update in parallel so they apply nearly instantly
+    await Promise.all(keys.map(async key => {
+        const inspected = signals.inspect<SignalValue>(key);
+        if (target === vscode.ConfigurationTarget.Workspace) {
+            const base = inspected?.workspaceValue ?? inspected?.globalValue ?? inspected?.defaultValue ?? {};
+            await signals.update(key, { ...base, [field]: 'off' }, target)
+                .then(undefined, () => { /* no workspace — skip */ });
+            return;
+        }
+        const base = inspected?.globalValue ?? inspected?.defaultValue ?? {};
+        await signals.update(key, { ...base, [field]: 'off' }, vscode.ConfigurationTarget.Global)
+            .then(undefined, () => { /* signal may not exist — skip */ });
+        // A workspace value would override the global "off"
+        if (inspected?.workspaceValue?.[field] !== undefined) {
+            await signals.update(key, { ...inspected.workspaceValue, [field]: 'off' },
+                vscode.ConfigurationTarget.Workspace)
+                .then(undefined, () => { /* no workspace — skip */ });
+        }
+    }));
+}
+
+/**
+ * Undo `silenceSignals()` for one field.
+ *
+ * Once no field of a signal is silenced any more, its snapshotted values
+ * are restored exactly at every target — including removing keys that
+ * were previously unset. While the other field is still silenced, only
+ * this field is put back.
+ *
+ * If the user changed a field by hand while it was silenced, their change
+ * wins. Signals without a snapshot fall back to their default value at
+ * `target` — with the Workspace target that un-mutes a globally silenced
+ * signal in this workspace only.
+ */
+export function restoreSignals(
+    state: vscode.Memento,
+    keys: readonly string[],
+    field: SignalField = 'sound',
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+): Promise<void> {
+    return serialized(() => restore(state, keys, field, target));
+}
+
+async function restore(
+    state: vscode.Memento,
+    keys: readonly string[],
+    field: SignalField,
+    target: vscode.ConfigurationTarget
+): Promise<void> {
+    const signals = vscode.workspace.getConfiguration('accessibility.signals');
+    const snapshot = { ...state.get<Record<string, SignalSnapshotEntry>>(SNAPSHOT_KEY, {}) };
+
+    await Promise.all(keys.map(async key => {
+        const entry = snapshot[key];
+        const inspected = signals.inspect<SignalValue>(key);
+
+        if (!entry || !silencedFields(entry).includes(field)) {
+            // Not silenced by us — just turn the field back to its default
+            const value = inspected?.defaultValue?.[field] ?? 'auto';
+            if (target === vscode.ConfigurationTarget.Workspace) {
+                if (signals.get<SignalValue>(key)?.[field] === 'off') {
+                    const base = inspected?.workspaceValue ?? inspected?.globalValue ?? {};
+                    await signals.update(key, { ...base, [field]: value }, target)
+                        .then(undefined, () => { /* no workspace — skip */ });
+                }
+            } else if (inspected?.globalValue?.[field] === 'off') {
+                await signals.update(key, { ...inspected.globalValue, [field]: value },
+                    vscode.ConfigurationTarget.Global)
+                    .then(undefined, () => { /* signal may not exist — skip */ });
+            }
+            return;
+        }
+
+        const remaining = silencedFields(entry).filter(f => f !== field);
+        if (remaining.length > 0) {
+            snapshot[key] = { ...entry, fields: remaining };
+        } else {
+            delete snapshot[key];
+        }
+
+        const targets: Array<[SignalValue | undefined, SignalValue | undefined, vscode.ConfigurationTarget]> = [
+            [inspected?.globalValue, entry.global, vscode.ConfigurationTarget.Global],
+            [inspected?.workspaceValue, entry.workspace, vscode.ConfigurationTarget.Workspace],
+        ];
+        for (const [current, original, writeTarget] of targets) {
+            if (target === vscode.ConfigurationTarget.Workspace && writeTarget !== target) {
+                continue; // A workspace snapshot never touches user settings
+            }
+            if (current?.[field] !== 'off') {
+                continue; // Changed by hand since we silenced it
+            }
+            const value = remaining.length > 0
+                ? withField(current, field, original?.[field])
+                : original;
+            await signals.update(key, value, writeTarget)
+                .then(undefined, () => { /* signal or workspace may not exist — skip */ });
+        }
+    }));
+
+    await state.update(SNAPSHOT_KEY, snapshot);
+}
+
+/** Signals whose `field` we have silenced and not yet restored. */
+export function getSilencedByUs(state: vscode.Memento, field: SignalField = 'sound'): string[] {
+    const snapshot = state.get<Record<string, SignalSnapshotEntry>>(SNAPSHOT_KEY, {});
+    return Object.keys(snapshot).filter(key => silencedFields(snapshot[key]).includes(field));
+}
+
+/** Run `task` after every earlier snapshot operation has finished. */
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result = queue.then(task, task);
+    queue = result.then(undefined, () => undefined);
+    return result;
+}
+
+function silencedFields(entry: SignalSnapshotEntry): SignalField[] {
+    return entry.fields ?? ['sound'];
+}
+
+/** Copy of `value` with `field` set, or removed when `fieldValue` is undefined. */
+function withField(value: SignalValue, field: SignalField, fieldValue: string | undefined): SignalValue {
+    const result: SignalValue = { ...value };
+    if (fieldValue === undefined) {
+        delete result[field];
+    } else {
+        result[field] = fieldValue;
+    }
+    return result;
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
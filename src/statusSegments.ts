@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { getScopedConfiguration } from './configScope';
+
+/** One entry of the `projectLabel.segments` setting. */
+export interface SegmentConfig {
+    /** Stable identifier; defaults to the position in the list. */
+    id?: string;
+    /** Content, in label template syntax, e.g. `${branch}`. Hidden when it renders empty. */
+    text: string;
+    /** Codicon shown before the text, e.g. `$(git-branch)`. */
+    icon?: string;
+    /** Hex color, theme color token, or "auto". Defaults to the label color. */
+    color?: string;
+    /** Defaults to `projectLabel.alignment`. */
+    alignment?: 'left' | 'right';
+    /** Defaults to `projectLabel.priority`, minus the position so list order is kept. */
+    priority?: number;
+    /** Tooltip, in label template syntax. Defaults to the label tooltip. */
+    tooltip?: string;
+    /** Command ID, or `{ command, args }`. Defaults to `projectLabel.clickAction`. */
+    command?: string | { command: string; args?: unknown };
+}
+
+/** A segment with its templates rendered, ready to show. */
+export interface ResolvedSegment {
+    id: string;
+    /** Accessibility name and the label in the status bar's context menu. */
+    name: string;
+    text: string;
+    tooltip?: string | vscode.MarkdownString;
+    color?: string | vscode.ThemeColor;
+    backgroundColor?: vscode.ThemeColor;
+    command?: string | vscode.Command;
+    alignment: vscode.StatusBarAlignment;
+    priority: number;
+}
+
+interface SegmentItem {
+    item: vscode.StatusBarItem;
+    alignment: vscode.StatusBarAlignment;
+    priority: number;
+}
+
+/**
+ * The label's status bar items, one per segment. `render()` updates items
+ * in place, creates items for new segments and disposes items whose
+ * segment is gone. Alignment and priority are fixed once an item exists,
+ * so changing either replaces that one item.
+ */
+export class StatusSegments implements vscode.Disposable {
+    private _items = new Map<string, SegmentItem>();
+
+    /**
+     * Show exactly `segments`, in their given order. Ids must be unique;
+     * a repeated id is skipped rather than overwriting the first item.
+     */
+    render(segments: readonly ResolvedSegment[]): void {
+        const ids = new Set(segments.map(s => s.id));
+        for (const [id, existing] of this._items) {
+            if (!ids.has(id)) {
+                existing.item.dispose();
+                this._items.delete(id);
+            }
+        }
+
+        const rendered = new Set<string>();
+        for (const segment of segments) {
+            if (rendered.has(segment.id)) {
+                continue;
+            }
+            rendered.add(segment.id);
+            let existing = this._items.get(segment.id);
+            if (existing && (existing.alignment !== segment.alignment || existing.priority !== segment.priority)) {
+                existing.item.dispose();
+                existing = undefined;
+            }
+            if (!existing) {
+                existing = {
+                    item: vscode.window.createStatusBarItem(
+                        `projectLabel.segment.${segment.id}`, segment.alignment, segment.priority),
+                    alignment: segment.alignment,
+                    priority: segment.priority,
+                };
+                this._items.set(segment.id, existing);
+            }
+            const item = existing.item;
+            item.name = segment.name;
+            item.text = segment.text;
+            item.tooltip = segment.tooltip;
+            item.color = segment.color;
+            item.backgroundColor = segment.backgroundColor;
+            item.command = segment.command;
+            item.show();
+        }
+    }
+
+    /** Hide every segment, e.g. when the label is turned off. */
+    clear(): void {
+        this.render([]);
+    }
+
+    dispose(): void {
+        this.clear();
+    }
+}
+
+/** `projectLabel.segments` entries that have a usable `text`. */
+export function getSegmentConfigs(): SegmentConfig[] {
+    const segments = getScopedConfiguration().get<SegmentConfig[]>('segments', []);
+    return (Array.isArray(segments) ? segments : []).filter(s => typeof s?.text === 'string');
+}
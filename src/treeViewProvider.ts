@@ -1,13 +1,60 @@
 import * as vscode from 'vscode';
+import { getProjectName, getProjectPath } from './workspaceFolder';
+import { describeRule, resolveActiveRule } from './rules';
+import { getDefiningScope, getScopedConfiguration, SCOPE_LABELS } from './configScope';
+import { getSignalRegistry, SIGNAL_GROUPS } from './signalRegistry';
+import {
+    describeRecentProject, getRecentProjectIcon, getRecentProjects, getWindowProjectUri,
+} from './recentProjects';
+import { formatLastSeen, WindowRegistry } from './windowRegistry';
+
+/** What ticking or unticking an item's checkbox writes. */
+export type TreeCheckbox =
+    /** A boolean `projectLabel.*` setting: checked = true. */
+    | { kind: 'setting'; key: string }
+    /** Signals' `sound` field: checked = silenced, as in the settings panel. */
+    | { kind: 'signals'; keys: string[] }
+    /** Every signal, like Toggle Silence All Sounds: checked = silenced. */
+    | { kind: 'allSounds' };
+
+/** A boolean setting shown as a checkbox. */
+interface ToggleDef {
+    key: string;
+    label: string;
+    tooltip: string;
+    icon: string;
+    defaultValue: boolean;
+}
+
+const DISPLAY_TOGGLES: ToggleDef[] = [
+    { key: 'showProjectName', label: 'Project Name', tooltip: 'Show the project name in the label', icon: 'eye', defaultValue: true },
+    { key: 'showProfile', label: 'Profile', tooltip: 'Show the profile name in the label', icon: 'person', defaultValue: true },
+    { key: 'showGitBranch', label: 'Git Branch', tooltip: 'Show the Git branch in the label', icon: 'git-branch', defaultValue: false },
+    { key: 'showInStatusBar', label: 'Status Bar', tooltip: 'Show the label in the status bar', icon: 'layout-statusbar', defaultValue: true },
+    { key: 'followActiveEditor', label: 'Follow Active Editor', tooltip: 'Label the folder of the active editor (multi-root)', icon: 'multiple-windows', defaultValue: false },
+];
+
+const TITLE_BAR_TOGGLES: ToggleDef[] = [
+    { key: 'updateWindowTitle', label: 'Window Title', tooltip: 'Put the label in the window title', icon: 'browser', defaultValue: true },
+    { key: 'useNativeTitleBar', label: 'Native Title Bar', tooltip: 'Required on Linux to see title text', icon: 'layout-panel', defaultValue: false },
+];
 
 /**
  * Tree view provider for the Project Label sidebar panel.
- * Shows current settings and quick-action buttons in the Explorer sidebar.
+ * Shows project info and settings in collapsible groups. Boolean settings
+ * and sound signals are native checkboxes; the extension writes them in
+ * `onDidChangeCheckboxState` (see each item's `checkbox`).
  */
 export class ProjectLabelTreeProvider implements vscode.TreeDataProvider<SettingItem> {
     private _onDidChangeTreeData = new vscode.EventEmitter<SettingItem | undefined>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
+    constructor(
+        private readonly _globalState: vscode.Memento,
+        private readonly _storageUri: vscode.Uri,
+        private readonly _windowRegistry: WindowRegistry
+    ) { }
+
     refresh(): void {
         this._onDidChangeTreeData.fire(undefined);
     }
@@ -16,139 +63,233 @@ export class ProjectLabelTreeProvider implements vscode.TreeDataProvider<Setting
         return element;
     }
 
-    getChildren(element?: SettingItem): SettingItem[] {
+    getChildren(element?: SettingItem): SettingItem[] | Promise<SettingItem[]> {
         if (element) {
-            return []; // No nesting
+            return element.children?.() ?? [];
         }
+        return [
+            group('info', 'Info', 'info', () => this._infoItems()),
+            group('windows', 'Open Windows', 'multiple-windows', () => this._windowItems()),
+            group('recent', 'Recent Projects', 'history', () => this._recentItems()),
+            group('display', 'Display', 'eye', () => DISPLAY_TOGGLES.map(toggleItem)),
+            group('appearance', 'Appearance', 'paintcan', () => this._appearanceItems()),
+            group('titleBar', 'Title Bar', 'window', () => TITLE_BAR_TOGGLES.map(toggleItem)),
+            group('sounds', 'Sounds', 'unmute', () => this._soundItems()),
+        ];
+    }
+
+    private _infoItems(): SettingItem[] {
+        const projectPath = getProjectPath();
+        const project = new SettingItem(`Project: ${getProjectName()}`, {
+            id: 'info.project',
+            description: projectPath || 'No workspace open',
+            icon: 'symbol-folder',
+            command: { command: 'projectLabel.copyLabel', title: 'Copy Label' },
+            contextValue: 'projectLabelInfo.project',
+        });
 
-        const config = vscode.workspace.getConfiguration('projectLabel');
-        const items: SettingItem[] = [];
-
-        // ── Info Section ──
-        const folders = vscode.workspace.workspaceFolders;
-        const projectName = folders?.[0]?.name ?? 'No Folder';
-        const projectPath = folders?.[0]?.uri.fsPath ?? '';
-
-        items.push(new SettingItem(
-            `Project: ${projectName}`,
-            projectPath || 'No workspace open',
-            'symbol-folder',
-            { command: 'projectLabel.copyLabel', title: 'Copy Label' }
-        ));
-
-        // ── Display toggles ──
-        items.push(new SettingItem(
-            `Project Name: ${boolIcon(config.get('showProjectName', true))}`,
-            'Toggle project name in label',
-            'eye',
-            { command: 'projectLabel.toggleShowProjectName', title: 'Toggle' }
-        ));
-
-        items.push(new SettingItem(
-            `Profile: ${boolIcon(config.get('showProfile', true))}`,
-            'Toggle profile name in label',
-            'person',
-            { command: 'projectLabel.toggleShowProfile', title: 'Toggle' }
-        ));
-
-        items.push(new SettingItem(
-            `Status Bar: ${boolIcon(config.get('showInStatusBar', true))}`,
-            'Toggle status bar visibility',
-            'layout-statusbar',
-            { command: 'projectLabel.toggleShowInStatusBar', title: 'Toggle' }
-        ));
-
-        items.push(new SettingItem(
-            `Window Title: ${boolIcon(config.get('updateWindowTitle', true))}`,
-            'Toggle window title injection',
-            'browser',
-            { command: 'projectLabel.toggleUpdateWindowTitle', title: 'Toggle' }
-        ));
-
-        // ── Title Bar ──
-        items.push(new SettingItem(
-            `Native Title Bar: ${boolIcon(config.get('useNativeTitleBar', false))}`,
-            'Required on Linux to see title text',
-            'layout-panel',
-            { command: 'projectLabel.toggleNativeTitleBar', title: 'Toggle' }
-        ));
-
-        // ── Copilot ──
-        items.push(new SettingItem(
-            `Copilot Silence: ${boolIcon(config.get('silenceCopilotChat', false))}`,
-            'Mute Copilot Chat accessibility sounds',
-            'mute',
-            { command: 'projectLabel.toggleSilenceCopilot', title: 'Toggle' }
-        ));
-
-        // ── All Sounds ──
-        items.push(new SettingItem(
-            `Silence All Sounds: ${boolIcon(config.get('silenceAllSounds', false))}`,
-            'Mute ALL VS Code accessibility sounds',
-            'bell-slash',
-            { command: 'projectLabel.toggleSilenceAllSounds', title: 'Toggle' }
-        ));
-
-        // ── Appearance ──
-        const icon = config.get<string>('icon', '$(bracket-dot)');
-        const color = config.get<string>('color', '');
-        const alignment = config.get<string>('alignment', 'left');
-
-        items.push(new SettingItem(
-            `Icon: ${icon || '(none)'}`,
-            `Alignment: ${alignment} · Color: ${color || 'theme default'}`,
-            'paintcan'
-        ));
-
-        // ── Actions separator ──
-        items.push(new SettingItem(
-            '── Actions ──',
-            '',
-            'dash',
-        ));
-
-        items.push(new SettingItem(
-            'Open Settings Panel',
-            'Full visual settings editor',
-            'settings-gear',
-            { command: 'projectLabel.openSettings', title: 'Open Settings' }
-        ));
-
-        items.push(new SettingItem(
-            'Refresh Label',
-            'Re-detect profile and update',
-            'refresh',
-            { command: 'projectLabel.refresh', title: 'Refresh' }
-        ));
-
-        items.push(new SettingItem(
-            'Copy Label to Clipboard',
-            'Copy current label text',
-            'clippy',
-            { command: 'projectLabel.copyLabel', title: 'Copy' }
-        ));
-
-        return items;
+        const match = resolveActiveRule();
+        const rule = new SettingItem(`Rule: ${match ? describeRule(match) : '(none)'}`, {
+            id: 'info.rule',
+            description: match ? 'Matched projectLabel.rules entry' : 'No projectLabel.rules entry matches',
+            icon: 'filter',
+            settingId: 'projectLabel.rules',
+        });
+        return [project, rule];
+    }
+
+    private _windowItems(): SettingItem[] {
+        return this._windowRegistry.windows.map(w => {
+            const item = new SettingItem(w.icon ? `${w.icon} ${w.label}` : w.label, {
+                id: `window.${w.id}`,
+                description: w.isCurrent ? 'this window' : w.path,
+                tooltip: [
+                    w.path || 'No folder open',
+                    `Profile: ${w.profile} · pid ${w.pid} · seen ${formatLastSeen(w.lastSeen)}`,
+                    w.duplicate ? 'Another window has the same label or folder' : '',
+                ].filter(Boolean).join('\n'),
+                icon: w.duplicate ? undefined : 'window',
+                command: w.isCurrent || !w.uri ? undefined : {
+                    command: 'projectLabel.focusWindow', title: 'Focus Window', arguments: [w.uri],
+                },
+                contextValue: 'projectLabelWindow',
+            });
+            if (w.duplicate) {
+                item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+            }
+            return item;
+        });
+    }
+
+    private async _recentItems(): Promise<SettingItem[]> {
+        const current = getWindowProjectUri()?.uri.toString();
+        const items = await Promise.all(getRecentProjects(this._globalState).map(async project => {
+            const isCurrent = project.uri === current;
+            const item = new SettingItem(project.icon ? `${project.icon} ${project.label}` : project.label, {
+                id: `recent.${project.uri}`,
+                description: isCurrent ? 'this window' : describeRecentProject(project),
+                tooltip: [describeRecentProject(project), project.profile && `Profile: ${project.profile}`]
+                    .filter(Boolean).join('\n'),
+                command: isCurrent ? undefined : {
+                    command: 'projectLabel.openRecentProject', title: 'Open', arguments: [project.uri],
+                },
+                projectUri: project.uri,
+                contextValue: isCurrent ? 'projectLabelRecentProject.current' : 'projectLabelRecentProject',
+            });
+            item.iconPath = await getRecentProjectIcon(project, this._storageUri);
+            return item;
+        }));
+        return items.length > 0 ? items : [new SettingItem('No recent projects yet', { id: 'recent.empty' })];
+    }
+
+    private _appearanceItems(): SettingItem[] {
+        const config = getScopedConfiguration();
+        const rows: Array<[string, string, string]> = [
+            ['icon', `Icon: ${config.get<string>('icon', '$(bracket-dot)') || '(none)'}`, 'symbol-misc'],
+            ['color', `Color: ${config.get<string>('color', '') || 'theme default'}`, 'symbol-color'],
+            ['alignment', `Alignment: ${config.get<string>('alignment', 'left')}`, 'arrow-both'],
+            ['priority', `Priority: ${config.get<number>('priority', 1000)}`, 'list-ordered'],
+        ];
+        return rows.map(([key, label, icon]) => new SettingItem(label, {
+            id: `appearance.${key}`,
+            description: scopeDescription(key),
+            icon,
+            settingId: `projectLabel.${key}`,
+            contextValue: settingContext(key),
+        }));
+    }
+
+    private _soundItems(): SettingItem[] {
+        const signals = vscode.workspace.getConfiguration('accessibility.signals');
+        const soundOf = (key: string) => signals.get<{ sound?: string }>(key)?.sound ?? 'auto';
+        const registry = getSignalRegistry();
+
+        const copilot = toggleItem({
+            key: 'silenceCopilotChat', label: 'Silence Copilot Chat', icon: 'mute',
+            tooltip: 'Mute Copilot Chat accessibility sounds', defaultValue: false,
+        });
+
+        const allKeys = registry.map(s => s.key);
+        const all = new SettingItem('Silence All Sounds', {
+            id: 'sounds.all',
+            tooltip: 'Checked: every accessibility signal is silent',
+            icon: 'bell-slash',
+            checkbox: { kind: 'allSounds' },
+            checked: allKeys.length > 0 && allKeys.every(k => soundOf(k) === 'off'),
+        });
+
+        const categories = SIGNAL_GROUPS
+            .map(g => ({ group: g, signals: registry.filter(s => s.groupId === g.id) }))
+            .filter(c => c.signals.length > 0)
+            .map(({ group: g, signals: members }) => {
+                const keys = members.map(s => s.key);
+                const muted = keys.filter(k => soundOf(k) === 'off').length;
+                return new SettingItem(`${g.icon} ${g.label}`, {
+                    id: `sounds.${g.id}`,
+                    description: `${muted}/${keys.length} muted`,
+                    tooltip: `Checked: every ${g.label} sound is silent`,
+                    checkbox: { kind: 'signals', keys },
+                    checked: muted === keys.length,
+                    collapsible: vscode.TreeItemCollapsibleState.Collapsed,
+                    children: () => members.map(s => new SettingItem(s.label, {
+                        id: `signal.${s.key}`,
+                        description: soundOf(s.key),
+                        tooltip: `accessibility.signals.${s.key} — checked: silent`,
+                        checkbox: { kind: 'signals', keys: [s.key] },
+                        checked: soundOf(s.key) === 'off',
+                        settingId: `accessibility.signals.${s.key}`,
+                        contextValue: 'projectLabelSignal',
+                    })),
+                });
+            });
+
+        return [all, copilot, ...categories];
     }
 }
 
-function boolIcon(val: boolean): string {
-    return val ? '✅' : '⬜';
+interface SettingItemOptions {
+    /** Stable id, so expansion state survives refreshes. */
+    id: string;
+    description?: string;
+    tooltip?: string;
+    icon?: string;
+    command?: vscode.Command;
+    /** Full setting id opened by the inline "Open Setting" action. */
+    settingId?: string;
+    /** Recent project URI, for the inline open / remove actions. */
+    projectUri?: string;
+    checkbox?: TreeCheckbox;
+    checked?: boolean;
+    contextValue?: string;
+    collapsible?: vscode.TreeItemCollapsibleState;
+    children?: () => SettingItem[] | Promise<SettingItem[]>;
 }
 
-class SettingItem extends vscode.TreeItem {
-    constructor(
-        label: string,
-        description: string,
-        icon: string,
-        command?: vscode.Command
-    ) {
-        super(label, vscode.TreeItemCollapsibleState.None);
-        this.description = description;
-        this.iconPath = new vscode.ThemeIcon(icon);
-        if (command) {
-            this.command = command;
+export class SettingItem extends vscode.TreeItem {
+    readonly settingId?: string;
+    readonly projectUri?: string;
+    readonly checkbox?: TreeCheckbox;
+    readonly children?: () => SettingItem[] | Promise<SettingItem[]>;
+
+    constructor(label: string, options: SettingItemOptions) {
+        super(label, options.collapsible ?? vscode.TreeItemCollapsibleState.None);
+        this.id = options.id;
+        this.description = options.description;
+        this.tooltip = options.tooltip;
+        if (options.icon) {
+            this.iconPath = new vscode.ThemeIcon(options.icon);
+        }
+        if (options.command) {
+            this.command = options.command;
+        }
+        this.settingId = options.settingId;
+        this.projectUri = options.projectUri;
+        this.checkbox = options.checkbox;
+        this.children = options.children;
+        if (options.checkbox) {
+            this.checkboxState = options.checked
+                ? vscode.TreeItemCheckboxState.Checked
+                : vscode.TreeItemCheckboxState.Unchecked;
         }
-        this.contextValue = 'projectLabelSetting';
+        this.contextValue = options.contextValue ?? (options.settingId ? 'projectLabelSetting' : undefined);
     }
 }
+
+function group(
+    id: string,
+    label: string,
+    icon: string,
+    children: () => SettingItem[] | Promise<SettingItem[]>
+): SettingItem {
+    return new SettingItem(label, {
+        id: `group.${id}`,
+        icon,
+        collapsible: vscode.TreeItemCollapsibleState.Expanded,
+        children,
+        contextValue: 'projectLabelGroup',
+    });
+}
+
+function toggleItem(def: ToggleDef): SettingItem {
+    return new SettingItem(def.label, {
+        id: `setting.${def.key}`,
+        description: scopeDescription(def.key),
+        tooltip: def.tooltip,
+        icon: def.icon,
+        settingId: `projectLabel.${def.key}`,
+        checkbox: { kind: 'setting', key: def.key },
+        checked: getScopedConfiguration().get<boolean>(def.key, def.defaultValue),
+        contextValue: settingContext(def.key),
+    });
+}
+
+/** Customized settings get the inline reset action. */
+function settingContext(key: string): string {
+    return getDefiningScope(key) === 'default' ? 'projectLabelSetting' : 'projectLabelSetting.customized';
+}
+
+/** "Workspace" etc. when the value is set somewhere, else nothing. */
+function scopeDescription(key: string): string | undefined {
+    const defining = getDefiningScope(key);
+    return defining === 'default' ? undefined : SCOPE_LABELS[defining];
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+
+/** How often each window rewrites its record. */
+const HEARTBEAT_MS = 15_000;
+/** A record not rewritten for this long belongs to a closed or hung window. */
+const STALE_MS = 4 * HEARTBEAT_MS;
+
+/** What a window publishes about itself. */
+export interface WindowInfo {
+    label: string;
+    icon: string;
+    color: string;
+    /** Folder or workspace file path, empty for an empty window. */
+    path: string;
+    /** Folder or workspace file URI, for focusing the window. */
+    uri?: string;
+    profile: string;
+}
+
+/** One window's heartbeat file. */
+export interface WindowRecord extends WindowInfo {
+    /** `vscode.env.sessionId` of the window. */
+    id: string;
+    /** Extension host process id. */
+    pid: number;
+    hostname: string;
+    /** Epoch ms of the last heartbeat. */
+    lastSeen: number;
+}
+
+export interface LiveWindow extends WindowRecord {
+    isCurrent: boolean;
+    /** Another live window has the same label or path. */
+    duplicate: boolean;
+}
+
+/**
+ * Publishes this window's label to a heartbeat file and reads everyone
+ * else's, so each window knows what the others are.
+ *
+ * Records live in `windows/<sessionId>.json` under the Default profile's
+ * global storage — shared by every profile, unlike `globalStorageUri`
+ * itself — one file per window so windows never overwrite each other.
+ * A record is dropped (and its file deleted) once it hasn't been
+ * refreshed for a minute, or when its process is gone.
+ */
+export class WindowRegistry implements vscode.Disposable {
+    private readonly _dir: vscode.Uri;
+    private readonly _file: vscode.Uri;
+    private readonly _id = vscode.env.sessionId;
+    private _info: WindowInfo | undefined;
+    private _timer: ReturnType<typeof setInterval>;
+    private _windows: LiveWindow[] = [];
+    private _pending: Promise<void> = Promise.resolve();
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    /** Fires when a window opens, closes or changes its label. */
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(globalStorageUri: vscode.Uri) {
+        this._dir = vscode.Uri.joinPath(getSharedStorageUri(globalStorageUri), 'windows');
+        this._file = vscode.Uri.joinPath(this._dir, `${this._id.replace(/[^\w.-]/g, '_')}.json`);
+        this._timer = setInterval(() => this._queue(() => this._heartbeat()), HEARTBEAT_MS);
+    }
+
+    /** Live windows, this one included, as of the last heartbeat. */
+    get windows(): readonly LiveWindow[] {
+        return this._windows;
+    }
+
+    /** Publish this window's current label. Only writes when it changed. */
+    update(info: WindowInfo): Promise<void> {
+        if (this._info && JSON.stringify(this._info) === JSON.stringify(info)) {
+            return this._pending;
+        }
+        this._info = info;
+        return this._queue(() => this._heartbeat());
+    }
+
+    /** Re-read the other windows' records now. */
+    refresh(): Promise<void> {
+        return this._queue(() => this._read());
+    }
+
+    private _queue(task: () => Promise<void>): Promise<void> {
+        this._pending = this._pending
+            .then(task)
+            .then(undefined, () => { /* storage unavailable — try again next heartbeat */ });
+        return this._pending;
+    }
+
+    private async _heartbeat(): Promise<void> {
+        if (this._info) {
+            const record: WindowRecord = {
+                ...this._info,
+                id: this._id,
+                pid: process.pid,
+                hostname: os.hostname(),
+                lastSeen: Date.now(),
+            };
+            await vscode.workspace.fs.writeFile(this._file, Buffer.from(JSON.stringify(record), 'utf-8'));
+        }
+        await this._read();
+    }
+
+    private async _read(): Promise<void> {
+        let entries: [string, vscode.FileType][] = [];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(this._dir);
+        } catch { /* no window has written yet */ }
+
+        const now = Date.now();
+        const records: WindowRecord[] = [];
+        for (const [name, type] of entries) {
+            if (type !== vscode.FileType.File || !name.endsWith('.json')) {
+                continue;
+            }
+            const file = vscode.Uri.joinPath(this._dir, name);
+            let record: WindowRecord | undefined;
+            try {
+                record = parseRecord(Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf-8'));
+            } catch { /* being rewritten by its window, or gone */ }
+            if (!record) {
+                continue;
+            }
+            if (record.id !== this._id && (now - record.lastSeen > STALE_MS || !isProcessAlive(record))) {
+                await vscode.workspace.fs.delete(file).then(undefined, () => { /* pruned by another window */ });
+                continue;
+            }
+            records.push(record);
+        }
+
+        const windows = markDuplicates(records, this._id);
+        const signature = (list: readonly LiveWindow[]) =>
+            JSON.stringify(list.map(w => [w.id, w.label, w.icon, w.color, w.path, w.profile]));
+        const changed = signature(windows) !== signature(this._windows);
+        this._windows = windows;
+        if (changed) {
+            this._onDidChange.fire();
+        }
+    }
+
+    dispose(): void {
+        clearInterval(this._timer);
+        this._onDidChange.dispose();
+        // Synchronous so the record is gone before the extension host exits
+        try {
+            fs.rmSync(this._file.fsPath, { force: true });
+        } catch { /* pruned as stale by the other windows instead */ }
+    }
+}
+
+/**
+ * The Default profile's global storage for this extension. Other profiles
+ * store under `<User>/profiles/<id>/globalStorage/<extension>`; all of them
+ * share `<User>/globalStorage/<extension>`.
+ */
+export function getSharedStorageUri(globalStorageUri: vscode.Uri): vscode.Uri {
+    return globalStorageUri.with({
+        path: globalStorageUri.path.replace(/\/profiles\/[^/]+\/globalStorage\//, '/globalStorage/'),
+    });
+}
+
+/** "5s ago", "3m ago" for a heartbeat time. */
+export function formatLastSeen(lastSeen: number, now = Date.now()): string {
+    const seconds = Math.max(0, Math.round((now - lastSeen) / 1000));
+    return seconds < 60 ? `${seconds}s ago` : `${Math.round(seconds / 60)}m ago`;
+}
+
+/** Sort by label and flag windows sharing a label or path with another. */
+function markDuplicates(records: readonly WindowRecord[], currentId: string): LiveWindow[] {
+    const count = (values: string[]) => values.reduce(
+        (map, v) => map.set(v, (map.get(v) ?? 0) + 1), new Map<string, number>());
+    const labels = count(records.map(r => r.label.toLowerCase()));
+    const paths = count(records.filter(r => r.path).map(r => r.path));
+    return records
+        .map(r => ({
+            ...r,
+            isCurrent: r.id === currentId,
+            duplicate: (labels.get(r.label.toLowerCase()) ?? 0) > 1 || (!!r.path && (paths.get(r.path) ?? 0) > 1),
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label) || a.path.localeCompare(b.path));
+}
+
+function parseRecord(text: string): WindowRecord | undefined {
+    const r = JSON.parse(text) as Partial<WindowRecord> | null;
+    if (typeof r?.id !== 'string' || typeof r.label !== 'string' || typeof r.lastSeen !== 'number') {
+        return undefined;
+    }
+    return {
+        id: r.id,
+        label: r.label,
+        icon: typeof r.icon === 'string' ? r.icon : '',
+        color: typeof r.color === 'string' ? r.color : '',
+        path: typeof r.path === 'string' ? r.path : '',
+        uri: typeof r.uri === 'string' ? r.uri : undefined,
+        profile: typeof r.profile === 'string' ? r.profile : 'Default',
+        pid: typeof r.pid === 'number' ? r.pid : 0,
+        hostname: typeof r.hostname === 'string' ? r.hostname : '',
+        lastSeen: r.lastSeen,
+    };
+}
+
+/** Whether the record's extension host still runs. Unknown hosts count as alive. */
+function isProcessAlive(record: WindowRecord): boolean {
+    if (!record.pid || record.hostname !== os.hostname()) {
+        return true;
+    }
+    try {
+        process.kill(record.pid, 0);
+        return true;
+    } catch (err) {
+        // EPERM: the process exists but belongs to someone else
+        return (err as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * globalState key: settings location → the window.title value we wrote
+ * there. A location is a workspace settings file path (or a URI when
+ * remote), or "global" for the user settings.
+ */
+const OWNED_TITLES_KEY = 'projectLabel.ownedWindowTitles';
+const GLOBAL_LOCATION = 'global';
+
+/** `projectLabel.windowTitleTarget`: where window.title is written. */
+export type WindowTitleTarget = 'workspace' | 'global' | 'none';
+
+interface ResolvedTarget {
+    configTarget: vscode.ConfigurationTarget;
+    location: string;
+}
+
+// Serialize writes so overlapping label refreshes can't race each other
+let pending: Promise<void> = Promise.resolve();
+let warnedUserEdit = false;
+
+/**
+ * Write `title` to window.title at `target`, or remove our value when
+ * `title` is undefined.
+ *
+ * The user settings are shared by every window, so the caller must pass a
+ * window-independent title for the Global target (see
+ * `buildWindowTitleTemplate`), or the windows would overwrite each other.
+ *
+ * Ownership rules:
+ * - a write is skipped when the stored value already equals `title`, so
+ *   the settings file is only touched when the title actually changes;
+ * - a value we did not write (the user edited it) is never overwritten or
+ *   removed — ownership is dropped and the user is told once;
+ * - with the None target, or the Workspace target and no folder open,
+ *   nothing is written.
+ */
+export function syncWindowTitle(
+    state: vscode.Memento,
+    title: string | undefined,
+    target: WindowTitleTarget
+): Promise<void> {
+    pending = pending
+        .then(() => writeTitle(state, title, target))
+        .then(undefined, () => { /* e.g. settings file not writable — retry next refresh */ });
+    return pending;
+}
+
+async function writeTitle(
+    state: vscode.Memento,
+    title: string | undefined,
+    target: WindowTitleTarget
+): Promise<void> {
+    const resolved = resolveTarget(target);
+    if (!resolved) {
+        return;
+    }
+
+    const owned = { ...state.get<Record<string, string>>(OWNED_TITLES_KEY, {}) };
+    const ourValue = owned[resolved.location];
+    const inspected = vscode.workspace.getConfiguration('window').inspect<string>('title');
+    const current = resolved.configTarget === vscode.ConfigurationTarget.Global
+        ? inspected?.globalValue
+        : inspected?.workspaceValue;
+
+    if (current !== undefined && current !== ourValue) {
+        // Someone else set this title — hands off
+        if (ourValue !== undefined) {
+            delete owned[resolved.location];
+            await state.update(OWNED_TITLES_KEY, owned);
+        }
+        if (title !== undefined && !warnedUserEdit) {
+            warnedUserEdit = true;
+            vscode.window.showInformationMessage(
+                'Project Label: window.title was edited manually, so the label is no longer written to it.'
+            );
+        }
+        return;
+    }
+
+    if (title === undefined) {
+        if (ourValue !== undefined) {
+            await vscode.workspace.getConfiguration('window').update('title', undefined, resolved.configTarget);
+            delete owned[resolved.location];
+            await state.update(OWNED_TITLES_KEY, owned);
+        }
+        return;
+    }
+
+    if (current !== title) {
+        await vscode.workspace.getConfiguration('window').update('title', title, resolved.configTarget);
+    }
+    if (ourValue !== title) {
+        owned[resolved.location] = title;
+        await state.update(OWNED_TITLES_KEY, owned);
+    }
+}
+
+/**
+ * Remove our window.title from `target` — when Update Window Title is
+ * turned off or the target changes.
+ */
+export function clearWindowTitle(state: vscode.Memento, target: WindowTitleTarget): Promise<void> {
+    return syncWindowTitle(state, undefined, target);
+}
+
+/**
+ * Remove every window.title we wrote, in the user settings and every
+ * workspace we have touched — including ones not open in this window,
+ * whose settings files are edited directly. Entries the user has since
+ * changed are left alone. Returns the number of locations cleaned.
+ */
+export async function cleanUpWindowTitles(state: vscode.Memento): Promise<number> {
+    await pending;
+    const owned = { ...state.get<Record<string, string>>(OWNED_TITLES_KEY, {}) };
+    const open = new Set(
+        [resolveTarget('workspace'), resolveTarget('global')]
+            .filter((t): t is ResolvedTarget => !!t)
+            .map(t => t.location)
+    );
+    let cleaned = 0;
+
+    for (const [location, value] of Object.entries(owned)) {
+        if (open.has(location)) {
+            await writeTitle(state, undefined, location === GLOBAL_LOCATION ? 'global' : 'workspace');
+            cleaned++;
+        } else if (removeTitleFromFile(location, value)) {
+            cleaned++;
+        }
+    }
+
+    await state.update(OWNED_TITLES_KEY, {});
+    return cleaned;
+}
+
+function resolveTarget(target: WindowTitleTarget): ResolvedTarget | undefined {
+    if (target === 'none') {
+        return undefined;
+    }
+    if (target === 'global') {
+        return { configTarget: vscode.ConfigurationTarget.Global, location: GLOBAL_LOCATION };
+    }
+
+    // Multi-root: settings live in the .code-workspace file
+    const workspaceFile = vscode.workspace.workspaceFile;
+    if (workspaceFile) {
+        return {
+            configTarget: vscode.ConfigurationTarget.Workspace,
+            location: workspaceFile.scheme === 'file' ? workspaceFile.fsPath : workspaceFile.toString(),
+        };
+    }
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+        return undefined; // Empty window — nowhere to write
+    }
+    return {
+        configTarget: vscode.ConfigurationTarget.Workspace,
+        location: folder.uri.scheme === 'file'
+            ? path.join(folder.uri.fsPath, '.vscode', 'settings.json')
+            : folder.uri.toString(),
+    };
+}
+
+/**
+ * Strip `"window.title": <value>` from a JSONC settings file, only if the
+ * value is exactly the one we wrote. Returns true if the file changed.
+ */
+function removeTitleFromFile(file: string, value: string): boolean {
+    if (!path.isAbsolute(file)) {
+        return false; // Remote or untitled workspace — can't reach it from here
+    }
+    try {
+        const text = fs.readFileSync(file, 'utf-8');
+        const entry = `"window\\.title"\\s*:\\s*${escapeRegExp(JSON.stringify(value))}`;
+        // Not the last property: drop it with its trailing comma;
+        // otherwise drop it with the preceding comma.
+        let next = text.replace(new RegExp(`${entry}\\s*,\\s*`), '');
+        if (next === text) {
+            next = text.replace(new RegExp(`,?\\s*${entry}`), '');
+        }
+        if (next === text) {
+            return false;
+        }
+        fs.writeFileSync(file, next, 'utf-8');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Values for VS Code's `window.title` variables, keyed without `${}`. */
+export type WindowTitleValues = Record<string, string>;
+
+/**
+ * Expand a `window.title` template the way VS Code does, for previews.
+ * `${separator}` only appears between two non-empty parts, and unknown
+ * variables expand to nothing.
+ */
+export function expandWindowTitle(template: string, values: WindowTitleValues, separator = ' - '): string {
+    return template
+        .split('${separator}')
+        .map(part => part.replace(/\$\{([^}]+)\}/g, (_, name: string) => values[name] ?? ''))
+        .filter(part => part.trim() !== '')
+        .join(separator);
+}
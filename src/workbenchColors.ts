@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+
+export type WorkbenchColorArea = 'titleBar' | 'statusBar' | 'activityBar';
+
+/** workspaceState key holding the colorCustomizations entries we wrote. */
+const OWNED_COLORS_KEY = 'projectLabel.ownedColorCustomizations';
+
+const AREA_KEYS: Record<WorkbenchColorArea, { background: string; foreground: string }> = {
+    titleBar: { background: 'titleBar.activeBackground', foreground: 'titleBar.activeForeground' },
+    statusBar: { background: 'statusBar.background', foreground: 'statusBar.foreground' },
+    activityBar: { background: 'activityBar.background', foreground: 'activityBar.foreground' },
+};
+
+// Serialize writes so rapid label refreshes can't interleave read-modify-write
+let pending: Promise<void> = Promise.resolve();
+let lastSignature: string | undefined;
+
+/**
+ * Bring `workbench.colorCustomizations` (Workspace target) in line with
+ * `color`. Only keys this extension owns are touched: a key is owned if we
+ * wrote it and its current value is still the one we wrote, so a value the
+ * user edited by hand is never overwritten or removed.
+ *
+ * Pass `color: undefined` to remove every entry we own.
+ */
+export function syncWorkbenchColors(
+    state: vscode.Memento,
+    color: string | undefined,
+    areas: WorkbenchColorArea[]
+): Promise<void> {
+    const desired = color && parseHex(color) ? buildColorCustomizations(color, areas) : {};
+    const signature = JSON.stringify(desired);
+    if (signature === lastSignature) {
+        return pending;
+    }
+    lastSignature = signature;
+    pending = pending.then(() => writeColors(state, desired)).then(undefined, () => {
+        // Write failed (e.g. no workspace) — retry on the next refresh
+        lastSignature = undefined;
+    });
+    return pending;
+}
+
+/**
+ * Remove every colorCustomizations entry we own — when the setting is
+ * turned off, or by the Clean Up Workbench Colors command.
+ */
+export function clearWorkbenchColors(state: vscode.Memento): Promise<void> {
+    return syncWorkbenchColors(state, undefined, []);
+}
+
+/** Whether the workbench colors will be driven by `color`. */
+export function isWorkbenchColor(color: string | undefined): boolean {
+    return !!color && !!parseHex(color);
+}
+
+function buildColorCustomizations(color: string, areas: WorkbenchColorArea[]): Record<string, string> {
+    const foreground = readableForeground(color);
+    const result: Record<string, string> = {};
+    for (const area of areas) {
+        const keys = AREA_KEYS[area];
+        if (keys) {
+            result[keys.background] = color;
+            result[keys.foreground] = foreground;
+        }
+    }
+    return result;
+}
+
+async function writeColors(state: vscode.Memento, desired: Record<string, string>): Promise<void> {
+    const owned = state.get<Record<string, string>>(OWNED_COLORS_KEY, {});
+    // Workspace settings need an open folder or .code-workspace
+    if (!vscode.workspace.workspaceFolders?.length) {
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('workbench');
+    const current = config.inspect<Record<string, string>>('colorCustomizations')?.workspaceValue ?? {};
+    const next: Record<string, string> = { ...current };
+    const nowOwned: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(owned)) {
+        if (!(key in desired) && next[key] === value) {
+            delete next[key];
+        }
+    }
+    for (const [key, value] of Object.entries(desired)) {
+        const existing = next[key];
+        if (existing !== undefined && existing !== owned[key]) {
+            continue; // Set by the user — leave it alone
+        }
+        next[key] = value;
+        nowOwned[key] = value;
+    }
+
+    if (JSON.stringify(next) !== JSON.stringify(current)) {
+        await config.update(
+            'colorCustomizations',
+            Object.keys(next).length > 0 ? next : undefined,
+            vscode.ConfigurationTarget.Workspace
+        );
+    }
+    await state.update(OWNED_COLORS_KEY, nowOwned);
+}
+
+/**
+ * Black or white, whichever has the higher WCAG contrast ratio against
+ * `background`.
+ */
+export function readableForeground(background: string): string {
+    const rgb = parseHex(background);
+    if (!rgb) {
+        return '#ffffff';
+    }
+    const luminance = relativeLuminance(rgb);
+    const contrastWithWhite = 1.05 / (luminance + 0.05);
+    const contrastWithBlack = (luminance + 0.05) / 0.05;
+    return contrastWithBlack >= contrastWithWhite ? '#000000' : '#ffffff';
+}
+
+/** Parse `#rgb`, `#rrggbb` or `#rrggbbaa` (alpha ignored). */
+export function parseHex(color: string): [number, number, number] | undefined {
+    let hex = color.trim();
+    if (!/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+        return undefined;
+    }
+    hex = hex.substring(1);
+    if (hex.length === 3) {
+        hex = hex.split('').map(c => c + c).join('');
+    }
+    return [
+        parseInt(hex.substring(0, 2), 16),
+        parseInt(hex.substring(2, 4), 16),
+        parseInt(hex.substring(4, 6), 16),
+    ];
+}
+
+function relativeLuminance([r, g, b]: [number, number, number]): number {
+    const channel = (c: number): number => {
+        const s = c / 255;
+        return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+
+/**
+ * Resolve which workspace folder the label describes.
+ *
+ * By default this is the first workspace folder. With
+ * `projectLabel.followActiveEditor` enabled, the folder containing the
+ * active editor's document wins; when no editor is focused (or the file
+ * lives outside every folder) there is no single folder and callers fall
+ * back to the workspace name.
+ */
+export function getActiveWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        return undefined;
+    }
+
+    const follow = vscode.workspace
+        .getConfiguration('projectLabel')
+        .get<boolean>('followActiveEditor', false);
+    if (!follow || folders.length === 1) {
+        return folders[0];
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return undefined;
+    }
+    return vscode.workspace.getWorkspaceFolder(editor.document.uri);
+}
+
+export function getProjectName(): string {
+    const folder = getActiveWorkspaceFolder();
+    if (folder) {
+        return folder.name;
+    }
+    // Multi-root with no focused editor: use the .code-workspace name
+    return vscode.workspace.name ?? 'No Folder';
+}
+
+export function getProjectPath(): string {
+    const folder = getActiveWorkspaceFolder();
+    if (folder) {
+        return folder.uri.fsPath;
+    }
+    const workspaceFile = vscode.workspace.workspaceFile;
+    if (workspaceFile && workspaceFile.scheme === 'file') {
+        return workspaceFile.fsPath;
+    }
+    return '';
+}
+
+/**
+ * Stable key for the folder currently being labelled, so listeners can
+ * skip work when the active editor moves within the same folder.
+ */
+export function getActiveFolderKey(): string {
+    const folder = getActiveWorkspaceFolder();
+    return folder ? folder.uri.toString() : `workspace:${vscode.workspace.name ?? ''}`;
+}